@@ -0,0 +1,36 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthError, authenticate } from '../../src/auth.js';
+import { applyCors } from '../../src/cors.js';
+import { getAuditLog } from '../../src/audit/AuditLog.js';
+import { handleAuditRequest } from '../../src/audit/http.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  applyCors(req, res, 'GET, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method === 'GET') {
+    try {
+      const identity = authenticate(req.headers);
+      await handleAuditRequest(getAuditLog(), new URL(req.url || '/', 'http://localhost'), identity, res);
+      return;
+    } catch (error: any) {
+      if (error instanceof AuthError) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(error.status).json({ error: error.code, message: error.message });
+        return;
+      }
+
+      res.status(500).json({ 
+        error: 'internal_error', 
+        message: error.message 
+      });
+      return;
+    }
+  }
+
+  res.status(405).json({ error: 'method_not_allowed' });
+}
@@ -0,0 +1,2 @@
+// Same handler; the /verify path is what selects the hash-chain check
+export { default } from './index.js';
@@ -0,0 +1,38 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { CommandAgent } from '../src/CommandAgent.js';
+import { streamCommand } from '../src/sse.js';
+import { AuthError, Identity, authenticate } from '../src/auth.js';
+import { applyCors } from '../src/cors.js';
+import { clientIp } from '../src/RateLimiter.js';
+import { correlationIdFrom } from '../src/audit/http.js';
+
+const agent = new CommandAgent();
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  applyCors(req, res, 'POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method === 'POST') {
+    let identity: Identity | undefined;
+    try {
+      identity = authenticate(req.headers);
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(error.status).json({ error: error.code, message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    // Vercel's edge always sets x-forwarded-for
+    await streamCommand(agent, req.body, res, { identity, ip: clientIp(req, true), correlationId: correlationIdFrom(req.headers) });
+    return;
+  }
+
+  res.status(405).json({ error: 'method_not_allowed' });
+}
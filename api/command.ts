@@ -1,13 +1,14 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { CommandAgent } from '../src/CommandAgent.js';
+import { AuthError, authenticate } from '../src/auth.js';
+import { applyCors } from '../src/cors.js';
+import { RateLimitError, clientIp, sendRateLimited } from '../src/RateLimiter.js';
+import { correlationIdFrom } from '../src/audit/http.js';
 
 const agent = new CommandAgent();
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  applyCors(req, res, 'POST, OPTIONS');
 
   if (req.method === 'OPTIONS') {
     res.status(200).end();
@@ -16,11 +17,25 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
   if (req.method === 'POST') {
     try {
+      const identity = authenticate(req.headers);
+      // Vercel's edge always sets x-forwarded-for
+      const ip = clientIp(req, true);
       const body = req.body;
-      const result = await agent.processCommand(body);
+      const result = await agent.processCommand(body, { identity, ip, correlationId: correlationIdFrom(req.headers) });
       res.status(200).json(result);
       return;
     } catch (error: any) {
+      if (error instanceof AuthError) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(error.status).json({ error: error.code, message: error.message });
+        return;
+      }
+
+      if (error instanceof RateLimitError) {
+        sendRateLimited(res, error);
+        return;
+      }
+
       res.status(500).json({ 
         error: 'internal_error', 
         message: error.message 
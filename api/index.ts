@@ -1,9 +1,18 @@
 import http from 'http';
 import { CommandAgent } from '../src/CommandAgent.js';
+import { streamCommand } from '../src/sse.js';
+import { AuthError, authenticate } from '../src/auth.js';
+import { applyCors } from '../src/cors.js';
+import { RateLimitError, clientIp, sendRateLimited } from '../src/RateLimiter.js';
+import { getAuditLog } from '../src/audit/AuditLog.js';
+import { correlationIdFrom, handleAuditRequest } from '../src/audit/http.js';
+import { McpServer } from '../src/mcp/McpServer.js';
+import { handleMcpHttp } from '../src/mcp/http.js';
 import pino from 'pino';
 
 const logger = pino({ name: '@swarm/command-agent' });
 const agent = new CommandAgent();
+const mcp = new McpServer(agent);
 
 // Register tools
 const tools = new Map();
@@ -14,10 +23,7 @@ for (const tool of agent.getTools()) {
 
 const server = http.createServer(async (req, res) => {
   try {
-    // CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, x-agent-role, x-agent-id, x-correlation-id');
+    applyCors(req, res, 'GET, POST, OPTIONS');
 
     if (req.method === 'OPTIONS') {
       res.writeHead(200);
@@ -31,6 +37,11 @@ const server = http.createServer(async (req, res) => {
       return;
     }
 
+    // Everything past health needs credentials; the user comes from them, not the body
+    const identity = authenticate(req.headers);
+    const ip = clientIp(req);
+    const correlationId = correlationIdFrom(req.headers);
+
     if (req.method === 'POST' && req.url === '/call') {
       const chunks: Buffer[] = [];
       for await (const chunk of req) {
@@ -46,7 +57,7 @@ const server = http.createServer(async (req, res) => {
         return;
       }
 
-      const result = await agent.handleToolCall(tool, input);
+      const result = await agent.handleToolCall(tool, input, { identity, ip, correlationId });
       
       res.writeHead(200, { 'content-type': 'application/json' });
       res.end(JSON.stringify(result));
@@ -61,17 +72,59 @@ const server = http.createServer(async (req, res) => {
       }
       
       const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
-      const result = await agent.processCommand(body);
+      const result = await agent.processCommand(body, { identity, ip, correlationId });
       
       res.writeHead(200, { 'content-type': 'application/json' });
       res.end(JSON.stringify(result));
       return;
     }
 
+    // Same command as /command, with swarm progress streamed as Server-Sent Events
+    if (req.method === 'POST' && req.url === '/command/stream') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+      await streamCommand(agent, body, res, { identity, ip, correlationId });
+      return;
+    }
+
+    // MCP over Streamable HTTP: JSON-RPC initialize, tools/list and tools/call
+    if (req.url === '/mcp') {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+
+      await handleMcpHttp(mcp, req, res, Buffer.concat(chunks).toString('utf8'), { identity, ip, correlationId });
+      return;
+    }
+
+    // Query or export the audit trail, or check its hash chain
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method === 'GET' && (url.pathname === '/audit' || url.pathname === '/audit/verify')) {
+      await handleAuditRequest(getAuditLog(), url, identity, res);
+      return;
+    }
+
     res.writeHead(404, { 'content-type': 'application/json' });
     res.end(JSON.stringify({ error: 'not_found' }));
 
   } catch (error: any) {
+    if (error instanceof AuthError) {
+      logger.warn({ code: error.code, url: req.url }, 'Request not authenticated');
+      res.writeHead(error.status, { 'content-type': 'application/json', 'www-authenticate': 'Bearer' });
+      res.end(JSON.stringify({ error: error.code, message: error.message }));
+      return;
+    }
+
+    if (error instanceof RateLimitError) {
+      sendRateLimited(res, error);
+      return;
+    }
+
     logger.error({ error: error.message }, 'Request handling error');
     res.writeHead(500, { 'content-type': 'application/json' });
     res.end(JSON.stringify({ 
@@ -84,4 +137,5 @@ const server = http.createServer(async (req, res) => {
 const port = Number(process.env.PORT || 4010);
 server.listen(port, () => {
   logger.info({ port }, 'Command Agent server listening');
+  agent.startAlertMonitoring();
 });
\ No newline at end of file
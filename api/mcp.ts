@@ -0,0 +1,36 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { CommandAgent } from '../src/CommandAgent.js';
+import { AuthError, authenticate } from '../src/auth.js';
+import { applyCors } from '../src/cors.js';
+import { clientIp } from '../src/RateLimiter.js';
+import { correlationIdFrom } from '../src/audit/http.js';
+import { McpServer } from '../src/mcp/McpServer.js';
+import { handleMcpHttp } from '../src/mcp/http.js';
+
+const mcp = new McpServer(new CommandAgent());
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  applyCors(req, res, 'GET, POST, DELETE, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  try {
+    const identity = authenticate(req.headers);
+    // Vercel's edge always sets x-forwarded-for
+    await handleMcpHttp(mcp, req, res, req.body, { identity, ip: clientIp(req, true), correlationId: correlationIdFrom(req.headers) });
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(error.status).json({ error: error.code, message: error.message });
+      return;
+    }
+
+    res.status(500).json({ 
+      error: 'internal_error', 
+      message: error.message 
+    });
+  }
+}
@@ -0,0 +1,287 @@
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import { MCPClient } from './MCPClient.js';
+import { MarketDataService } from './MarketDataService.js';
+import { Alert, AlertCondition } from './types.js';
+import { parseTimeframe } from './timeframe.js';
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:alerts' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many of a user's newest alerts are kept listed, and of everyone's for polling
+const USER_ALERT_LIMIT = 500;
+const ALL_ALERT_LIMIT = 5000;
+
+function alertKey(alertId: string): string {
+  return `alerts.${alertId}`;
+}
+
+function userAlertsKey(userId: string): string {
+  return `alertIndex.users.${userId}`;
+}
+
+const ALL_ALERTS_KEY = 'alertIndex.all';
+
+function undeliveredKey(userId: string): string {
+  return `alertIndex.undelivered.${userId}`;
+}
+
+interface PriceSnapshot {
+  price: number;
+  // Daily closes with their session time, oldest first
+  history: Array<{ time: number; close: number }>;
+}
+
+// Returns true once the condition is met. `previous` is the last price observed
+// for this alert, used to detect a cross between two evaluations.
+export function evaluateCondition(condition: AlertCondition, snapshot: PriceSnapshot, previous?: number): boolean {
+  const { price } = snapshot;
+
+  switch (condition.type) {
+    case 'above':
+      return condition.price !== undefined && price >= condition.price;
+
+    case 'below':
+      return condition.price !== undefined && price <= condition.price;
+
+    case 'crosses': {
+      if (condition.price === undefined || previous === undefined) return false;
+      const level = condition.price;
+      return (previous < level && price >= level) || (previous > level && price <= level);
+    }
+
+    case 'percent_move': {
+      if (condition.percent === undefined) return false;
+      // The base is the last close at or before the start of the window, measured in
+      // calendar time from the latest session, so weekends and holidays count as such
+      const latest = snapshot.history[snapshot.history.length - 1];
+      if (!latest) return false;
+      const windowStart = latest.time - (parseTimeframe(condition.timeframe) || DAY_MS);
+      const base = snapshot.history.filter(bar => bar.time <= windowStart).pop()?.close;
+      if (!base) return false;
+
+      const movePercent = ((price - base) / base) * 100;
+      switch (condition.direction) {
+        case 'up':
+          return movePercent >= condition.percent;
+        case 'down':
+          return movePercent <= -condition.percent;
+        default:
+          return Math.abs(movePercent) >= condition.percent;
+      }
+    }
+  }
+}
+
+export function describeCondition(condition: AlertCondition): string {
+  switch (condition.type) {
+    case 'above':
+      return `rises to $${condition.price} or above`;
+    case 'below':
+      return `falls to $${condition.price} or below`;
+    case 'crosses':
+      return `crosses $${condition.price}`;
+    case 'percent_move': {
+      const direction = condition.direction === 'up' ? 'up' : condition.direction === 'down' ? 'down' : '';
+      return `moves ${condition.percent}%${direction ? ` ${direction}` : ''} over ${condition.timeframe || '1d'}`;
+    }
+  }
+}
+
+// Polls market-data for every symbol with an active alert. Each alert fires at most
+// once; fired alerts are kept per user until the agent delivers them. Alerts live in
+// storage, so with a file or redis backend they survive restarts and every instance
+// lists the same ones. Only the instance that runs start() polls, so an alert is
+// never evaluated twice.
+export class AlertEngine extends EventEmitter {
+  private marketData: MarketDataService;
+  private storage: Storage;
+  private intervalMs: number;
+  private defaultTtlMs: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(mcp: MCPClient, storage: Storage = getStorage()) {
+    super();
+    this.marketData = new MarketDataService(mcp);
+    this.storage = storage;
+    this.intervalMs = Number(process.env.ALERT_POLL_INTERVAL_MS || 60000);
+    this.defaultTtlMs = Number(process.env.ALERT_DEFAULT_TTL_DAYS || 30) * DAY_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluateOnce().catch(error => {
+        logger.error({ error: error instanceof Error ? error.message : error }, 'Alert evaluation failed');
+      });
+    }, this.intervalMs);
+    this.timer.unref();
+
+    // Alerts stored before a restart are picked up by the first poll
+    this.getAllAlerts()
+      .then(alerts => logger.info({ intervalMs: this.intervalMs, active: alerts.filter(alert => alert.status === 'ACTIVE').length }, 'Alert monitoring started'))
+      .catch(error => logger.warn({ error: error instanceof Error ? error.message : error }, 'Alert monitoring started; stored alerts could not be read'));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async createAlert(userId: string, symbol: string, condition: AlertCondition, expiresIn?: string): Promise<Alert> {
+    const now = Date.now();
+    const snapshot = await this.fetchSnapshot(symbol, condition).catch(() => undefined);
+
+    const alert: Alert = {
+      alertId: `alert_${symbol}_${randomUUID().slice(0, 8)}`,
+      userId,
+      symbol,
+      condition,
+      status: 'ACTIVE',
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + (parseTimeframe(expiresIn) || this.defaultTtlMs)).toISOString(),
+      referencePrice: snapshot?.price,
+      lastPrice: snapshot?.price
+    };
+
+    await this.storage.set(alertKey(alert.alertId), alert);
+    await this.storage.append(userAlertsKey(userId), alert.alertId, USER_ALERT_LIMIT);
+    await this.storage.append(ALL_ALERTS_KEY, alert.alertId, ALL_ALERT_LIMIT);
+    logger.info({ alertId: alert.alertId, userId, symbol, condition }, 'Alert created');
+
+    return alert;
+  }
+
+  // Oldest first, as created
+  async listAlerts(userId: string, includeInactive: boolean = false): Promise<Alert[]> {
+    const alerts = await this.load(await this.storage.range<string>(userAlertsKey(userId), USER_ALERT_LIMIT));
+    return alerts.filter(alert => includeInactive || alert.status === 'ACTIVE');
+  }
+
+  // Cancels the user's active alerts, optionally only those for one symbol
+  async cancelAlerts(userId: string, symbol?: string): Promise<Alert[]> {
+    const targets = (await this.listAlerts(userId)).filter(alert => !symbol || alert.symbol === symbol);
+    return await this.deactivate(targets, 'CANCELLED');
+  }
+
+  // Omitting userId disables active alerts across all users
+  async disableAll(userId?: string): Promise<Alert[]> {
+    const targets = userId === undefined
+      ? (await this.getAllAlerts()).filter(alert => alert.status === 'ACTIVE')
+      : await this.listAlerts(userId);
+    return await this.deactivate(targets, 'CANCELLED');
+  }
+
+  // Fired alerts not yet shown to the user; draining marks them delivered. A storage
+  // failure delivers nothing now and leaves them for the next command.
+  async drainTriggered(userId: string): Promise<Alert[]> {
+    try {
+      const ids = await this.storage.range<string>(undeliveredKey(userId), USER_ALERT_LIMIT);
+      if (ids.length === 0) {
+        return [];
+      }
+      await this.storage.delete(undeliveredKey(userId));
+      return await this.load(ids);
+    } catch (error) {
+      logger.warn({ userId, error: error instanceof Error ? error.message : error }, 'Failed to load triggered alerts');
+      return [];
+    }
+  }
+
+  async evaluateOnce(): Promise<Alert[]> {
+    const now = Date.now();
+    const active = (await this.getAllAlerts()).filter(alert => alert.status === 'ACTIVE');
+
+    const expired = active.filter(alert => alert.expiresAt && Date.parse(alert.expiresAt) <= now);
+    await this.deactivate(expired, 'EXPIRED');
+
+    const live = active.filter(alert => !expired.includes(alert));
+    const bySymbol = new Map<string, Alert[]>();
+    for (const alert of live) {
+      bySymbol.set(alert.symbol, [...(bySymbol.get(alert.symbol) || []), alert]);
+    }
+
+    const fired: Alert[] = [];
+    for (const [symbol, alerts] of bySymbol) {
+      let snapshot: PriceSnapshot;
+      try {
+        snapshot = await this.fetchSnapshot(symbol, ...alerts.map(alert => alert.condition));
+      } catch (error) {
+        logger.warn({ symbol, error: error instanceof Error ? error.message : error }, 'Failed to fetch price for alerts');
+        continue;
+      }
+
+      for (const alert of alerts) {
+        const triggered = evaluateCondition(alert.condition, snapshot, alert.lastPrice);
+        const updated: Alert = triggered
+          ? {
+              ...alert,
+              status: 'TRIGGERED',
+              lastPrice: snapshot.price,
+              triggeredAt: new Date().toISOString(),
+              triggeredPrice: snapshot.price
+            }
+          : { ...alert, lastPrice: snapshot.price };
+
+        await this.save(updated);
+
+        if (triggered) {
+          fired.push(updated);
+          await this.storage.append(undeliveredKey(updated.userId), updated.alertId, USER_ALERT_LIMIT);
+          logger.info({ alertId: updated.alertId, price: snapshot.price }, 'Alert triggered');
+          this.emit('triggered', updated);
+        }
+      }
+    }
+
+    return fired;
+  }
+
+  private async deactivate(alerts: Alert[], status: 'CANCELLED' | 'EXPIRED'): Promise<Alert[]> {
+    const updated = alerts.map(alert => ({ ...alert, status }));
+    for (const alert of updated) {
+      await this.save(alert);
+    }
+    return updated;
+  }
+
+  private async getAllAlerts(): Promise<Alert[]> {
+    return await this.load(await this.storage.range<string>(ALL_ALERTS_KEY, ALL_ALERT_LIMIT));
+  }
+
+  private async load(alertIds: string[]): Promise<Alert[]> {
+    const alerts = await Promise.all(alertIds.map(alertId => this.storage.get<Alert>(alertKey(alertId))));
+    return alerts.filter((alert): alert is Alert => alert !== undefined);
+  }
+
+  private async save(alert: Alert): Promise<void> {
+    try {
+      await this.storage.set(alertKey(alert.alertId), alert);
+    } catch (error) {
+      logger.warn({ alertId: alert.alertId, error: error instanceof Error ? error.message : error }, 'Failed to store alert');
+    }
+  }
+
+  // Fetches enough daily history to cover the longest percent-move window
+  private async fetchSnapshot(symbol: string, ...conditions: AlertCondition[]): Promise<PriceSnapshot> {
+    const lookbackMs = Math.max(7 * DAY_MS, ...conditions.map(condition => 2 * (parseTimeframe(condition.timeframe) || 0)));
+    const bars = await this.marketData.getDailyBars(symbol, lookbackMs);
+    if (bars.length === 0) {
+      throw new Error(`No price data for ${symbol}`);
+    }
+
+    return {
+      price: bars[bars.length - 1].close,
+      history: bars
+        .map(bar => ({ time: Date.parse(bar.date), close: bar.close }))
+        .filter(bar => !Number.isNaN(bar.time))
+    };
+  }
+}
@@ -1,22 +1,127 @@
 import { IntentParser } from './IntentParser.js';
-import { CommandRouter } from './CommandRouter.js';
-import { CommandRequest, CommandResponse } from './types.js';
+import { CommandRouter, RouteContext } from './CommandRouter.js';
+import { MCPClient } from './MCPClient.js';
+import { PendingConfirmationStore, PendingAction, ConfirmationReply, parseConfirmationReply } from './PendingConfirmationStore.js';
+import {
+  CommandRequest, CommandResponse, OutputMode, AuditQuery,
+  ParseToolInput, ParseToolOutput, AnalyzeSymbolToolInput, AnalyzeSymbolToolOutput,
+  ListAlertsToolInput, ListAlertsToolOutput, ConfirmToolInput, ExplainToolInput, ExplainToolOutput
+} from './types.js';
+import { toJSONSchema } from './jsonSchema.js';
+import { CommandResult, notice } from './presentation/views.js';
+import { createRenderers, RendererSet } from './presentation/createRenderer.js';
+import { ProgressListener, notify } from './progress.js';
+import { Identity, authorizeCommand, hasRole } from './auth.js';
+import { RateLimiter, RateLimitError } from './RateLimiter.js';
+import { SessionStore } from './SessionStore.js';
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+import { AuditLog, AuditTrail, getAuditLog } from './audit/AuditLog.js';
+import { randomUUID } from 'crypto';
 import pino from 'pino';
 
 const logger = pino({ name: '@swarm/command-agent' });
 
+export interface ProcessOptions {
+  // The verified caller. Its userId replaces the request's and its roles gate each
+  // intent; in-process callers that already trust the request leave it out.
+  identity?: Identity;
+  // Hears each step as it completes, for streaming clients; the returned response
+  // is the same either way
+  onProgress?: ProgressListener;
+  // The caller's address, for the per-IP rate limit
+  ip?: string;
+  // Groups this command's audit records; one is generated when not given
+  correlationId?: string;
+}
+
 export class CommandAgent {
   private intentParser: IntentParser;
   private commandRouter: CommandRouter;
-  private commandHistory: Map<string, any[]> = new Map();
+  private pendingConfirmations: PendingConfirmationStore;
+  private renderers: RendererSet;
+  private rateLimiter: RateLimiter;
+  private sessions: SessionStore;
+  private audit: AuditLog;
+
+  // Sessions, history, confirmations and settings live in storage, so with a shared
+  // backend every replica (or Vercel function) sees the same conversation. The MCP
+  // client and intent parser default to the deployment's; tests pass their own.
+  constructor(
+    storage: Storage = getStorage(),
+    audit: AuditLog = getAuditLog(),
+    mcp: MCPClient = new MCPClient(),
+    intentParser: IntentParser = new IntentParser()
+  ) {
+    this.intentParser = intentParser;
+    this.commandRouter = new CommandRouter(mcp, storage);
+    this.pendingConfirmations = new PendingConfirmationStore(storage);
+    this.sessions = new SessionStore(storage);
+    this.renderers = createRenderers();
+    this.rateLimiter = new RateLimiter();
+    this.audit = audit;
+  }
+
+  // Throws RateLimitError when the user or address is over its limit, for the server
+  // to answer 429; every other failure comes back as an unsuccessful response.
+  // Everything from the text typed to the final result is written to the audit log
+  // under one correlation id before the response is returned.
+  async processCommand(request: CommandRequest, options: ProcessOptions = {}): Promise<CommandResponse> {
+    const { identity } = options;
+    const scoped = identity ? { ...request, userId: identity.userId } : request;
+    const { userId = 'anonymous', sessionId = 'default' } = scoped;
+    this.rateLimiter.checkRequest(userId, options.ip);
+    await this.sessions.touch(userId, sessionId);
+
+    const trail = this.audit.begin(options.correlationId || randomUUID(), userId, sessionId);
+    trail.record('command_received', { command: request.command, context: request.context, authMethod: identity?.method, roles: identity?.roles });
+    const onProgress: ProgressListener = (event) => {
+      trail.recordProgress(event);
+      options.onProgress?.(event);
+    };
+
+    let handled: CommandResult;
+    try {
+      handled = await this.handleCommand(scoped, { ...options, onProgress }, trail);
+    } catch (error) {
+      trail.record('command_completed', { success: false, error: error instanceof Error ? error.message : String(error) });
+      await trail.flush();
+      throw error;
+    }
+
+    const result = await this.withTriggeredAlerts(await this.withTradingMode(handled, userId), userId);
+    trail.record('command_completed', { success: result.success, tradingMode: result.tradingMode, view: result.view });
+    await trail.flush();
+
+    await this.sessions.record(userId, {
+      command: request.command,
+      response: this.describeForHistory(result),
+      success: result.success,
+      sessionId,
+      timestamp: new Date().toISOString()
+    });
+    return { ...await this.respond(result, userId, request.outputMode), correlationId: trail.correlationId };
+  }
+
+  // The request's own output mode wins, otherwise the user's persona setting decides
+  private async respond(result: CommandResult, userId: string, outputMode?: OutputMode): Promise<CommandResponse> {
+    const mode = outputMode || ((await this.commandRouter.getUserSettings(userId)).personaMode ? 'persona' : 'plain');
+    const rendered = this.renderers[mode].render(result);
 
-  constructor() {
-    this.intentParser = new IntentParser();
-    this.commandRouter = new CommandRouter();
+    return {
+      success: result.success,
+      message: rendered.message,
+      data: result.data,
+      followUp: rendered.followUp,
+      mode,
+      tradingMode: result.tradingMode ?? 'live',
+      result: result.view
+    };
   }
 
-  async processCommand(request: CommandRequest): Promise<CommandResponse> {
+  private async handleCommand(request: CommandRequest, { identity, onProgress }: ProcessOptions, trail: AuditTrail): Promise<CommandResult> {
     const { command, userId = 'anonymous', sessionId = 'default', context } = request;
+    const route: RouteContext = { userId, sessionId, onProgress };
     
     logger.info({ 
       command: command.slice(0, 100), 
@@ -25,14 +130,61 @@ export class CommandAgent {
     }, 'Processing command');
 
     try {
-      // Add command to history
-      this.addToHistory(sessionId, { command, timestamp: new Date().toISOString() });
+      // "yes"/"no" replies resolve the pending action instead of being parsed as a new command
+      const reply = parseConfirmationReply(command);
+      if (reply) {
+        return await this.resolveConfirmation(reply, route, trail, context?.confirmationToken);
+      }
 
-      // Parse the natural language command
-      const parsedCommand = await this.intentParser.parseCommand(command, {
+      // Parse the natural language command into one or more steps
+      const history = await this.sessions.sessionHistory(userId, sessionId, 3);
+      const plan = await this.intentParser.parsePlan(command, {
         ...context,
-        history: this.getRecentHistory(sessionId)
-      });
+        history: history.map(({ command, response, success, timestamp }) => ({ command, response, success, timestamp }))
+      }, userId);
+      notify(onProgress, { type: 'parse', plan });
+
+      // Every step is checked before anything runs or is offered for confirmation
+      const denied = identity && plan.steps.map(step => authorizeCommand(identity, step.command)).find(Boolean);
+      if (denied) {
+        logger.warn({ userId, roles: identity.roles, intents: plan.steps.map(step => step.command.intent) }, 'Command refused for role');
+        return {
+          success: false,
+          view: notice('forbidden', `Not allowed: ${denied}`),
+          data: { error: 'forbidden', reason: denied }
+        };
+      }
+
+      // A halted user is told so before any trade is offered for confirmation
+      if (plan.steps.some(step => step.command.intent === 'BUY' || step.command.intent === 'SELL')) {
+        const halted = await this.commandRouter.haltedResult(userId);
+        if (halted) {
+          return halted;
+        }
+        this.rateLimiter.checkTrade(userId);
+      }
+
+      // Compound commands run as a plan under a single confirmation
+      if (plan.steps.length > 1) {
+        const pending = await this.createPending(route, {
+          kind: 'plan',
+          userId,
+          plan
+        });
+
+        return {
+          success: true,
+          view: { kind: 'confirm_plan', plan },
+          data: {
+            requiresConfirmation: true,
+            confirmationToken: pending.token,
+            expiresAt: pending.expiresAt,
+            plan
+          }
+        };
+      }
+
+      const parsedCommand = plan.steps[0].command;
 
       // Log parsed intent
       logger.info({
@@ -41,107 +193,309 @@ export class CommandAgent {
         needsConfirmation: parsedCommand.needsConfirmation
       }, 'Command parsed');
 
-      // Check if we need user confirmation
-      if (parsedCommand.needsConfirmation && !context?.confirmed) {
+      // Check if we need user confirmation; lifting a halt always does. Trades are
+      // confirmed once, on the sized proposal after the swarm's recommendation is
+      // shown, so they are routed straight away.
+      const isTrade = parsedCommand.intent === 'BUY' || parsedCommand.intent === 'SELL';
+      if ((parsedCommand.needsConfirmation || parsedCommand.intent === 'RESUME') && !isTrade) {
+        const pending = await this.createPending(route, {
+          kind: 'command',
+          userId,
+          parsedCommand
+        });
+
         return {
           success: true,
-          message: this.generateConfirmationMessage(parsedCommand),
+          view: { kind: 'confirm_command', command: parsedCommand },
           data: { 
             requiresConfirmation: true,
+            confirmationToken: pending.token,
+            expiresAt: pending.expiresAt,
             parsedCommand: {
               intent: parsedCommand.intent,
               entities: parsedCommand.entities,
               confidence: parsedCommand.confidence
             }
-          },
-          followUp: 'Reply with "yes" to confirm or "no" to cancel.'
+          }
         };
       }
 
       // Route the command to appropriate handler
-      const response = await this.commandRouter.routeCommand(parsedCommand);
-
-      // Add response to history
-      this.addToHistory(sessionId, { 
-        command, 
-        response: response.message, 
-        success: response.success,
-        timestamp: new Date().toISOString() 
-      });
-
-      return response;
+      return await this.trackTradeConfirmation(
+        await this.commandRouter.routeCommand(parsedCommand, route),
+        route
+      );
 
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       logger.error({ error: errorMessage, command }, 'Command processing failed');
 
       return {
         success: false,
-        message: 'I encountered an error processing your request. Please try again or rephrase your command.',
+        view: notice('processing_failed', 'I encountered an error processing your request. Please try again or rephrase your command.'),
         data: { error: errorMessage }
       };
     }
   }
 
-  private generateConfirmationMessage(parsedCommand: any): string {
-    const { intent, entities } = parsedCommand;
-    
-    switch (intent) {
-      case 'BUY':
-        const buyAmount = entities.amount ? `$${entities.amount}` : `${entities.quantity || 1} shares`;
-        return `Confirm: Buy ${buyAmount} of ${entities.symbol}?`;
-      
-      case 'SELL':
-        const sellAmount = entities.amount ? `$${entities.amount} worth` : `${entities.quantity || 'all'} shares`;
-        return `Confirm: Sell ${sellAmount} of ${entities.symbol}?`;
-      
-      default:
-        return `Confirm: Execute ${intent.toLowerCase()} command?`;
+  // History feeds the intent parser's context, which reads best without personas
+  private describeForHistory(result: CommandResult): string {
+    return this.renderers.plain.render(result).message;
+  }
+
+  private async resolveConfirmation(reply: ConfirmationReply, route: RouteContext, trail: AuditTrail, token?: string): Promise<CommandResult> {
+    const { userId, sessionId = 'default' } = route;
+    const result = await this.pendingConfirmations.resolve(sessionId, userId, token);
+
+    // Who answered what, to which action; the action's intents become this command's subject
+    if (result.status !== 'none') {
+      const commands = result.action.plan ? result.action.plan.steps.map(step => step.command) : [result.action.parsedCommand!];
+      trail.setSubject(commands.map(command => command.intent), commands.flatMap(command => command.entities.symbol ? [command.entities.symbol] : []));
     }
+    trail.record('confirmation_resolved', {
+      reply,
+      status: result.status,
+      kind: result.status === 'none' ? undefined : result.action.kind,
+      confirmationToken: result.status === 'none' ? undefined : result.action.token,
+      requestedBy: result.status === 'none' ? undefined : result.action.userId,
+      answeredBy: userId
+    });
+
+    switch (result.status) {
+      case 'none':
+        return {
+          success: false,
+          view: notice('nothing_pending', 'There is nothing awaiting confirmation.')
+        };
+
+      case 'expired':
+        logger.warn({ sessionId, token: result.action.token }, 'Confirmation expired');
+        return {
+          success: false,
+          view: notice('confirmation_expired', `That confirmation expired at ${result.action.expiresAt}. Nothing was executed — please send the command again.`),
+          data: { confirmationToken: result.action.token, reason: 'expired' }
+        };
+
+      case 'mismatch':
+        logger.warn({ sessionId, userId, token }, 'Confirmation did not match pending action');
+        return {
+          success: false,
+          view: notice('confirmation_mismatch', 'That confirmation does not match the pending action. Nothing was executed — please send the command again.'),
+          data: { reason: 'mismatch' }
+        };
+    }
+
+    const { action } = result;
+
+    if (reply === 'reject') {
+      logger.info({ sessionId, token: action.token }, 'Pending action cancelled');
+      return {
+        success: true,
+        view: notice('confirmation_cancelled', action.plan
+          ? `Cancelled: ${action.plan.steps.length}-step plan. Nothing was executed.`
+          : `Cancelled: ${action.parsedCommand!.intent.toLowerCase()} command for ${action.parsedCommand!.entities.symbol || 'your account'}.`),
+        data: { cancelled: true, confirmationToken: action.token }
+      };
+    }
+
+    logger.info({ sessionId, token: action.token, kind: action.kind }, 'Pending action confirmed');
+
+    if (action.kind === 'plan') {
+      return await this.commandRouter.executePlan(action.plan!, route);
+    }
+
+    if (action.kind === 'trade') {
+      return await this.commandRouter.confirmTrade(
+        action.parsedCommand!,
+        action.proposal!,
+        action.recommendation,
+        route
+      );
+    }
+
+    // Replay the exact parsed command that was shown, never a re-parse of the reply
+    return await this.trackTradeConfirmation(
+      await this.commandRouter.routeCommand(action.parsedCommand!, route),
+      route
+    );
   }
 
-  private addToHistory(sessionId: string, entry: any): void {
-    if (!this.commandHistory.has(sessionId)) {
-      this.commandHistory.set(sessionId, []);
+  // The router asks for its own confirmation once the swarm has produced a proposal.
+  // Trades at or under the user's confirmation threshold go straight through.
+  private async trackTradeConfirmation(response: CommandResult, route: RouteContext): Promise<CommandResult> {
+    if (!response.data?.requiresConfirmation || !response.data.proposal) {
+      return response;
     }
-    
-    const history = this.commandHistory.get(sessionId)!;
-    history.push(entry);
-    
-    // Keep only last 10 commands per session
-    if (history.length > 10) {
-      history.shift();
+
+    const { userId, sessionId } = route;
+    const { confirmationThreshold } = await this.commandRouter.getUserSettings(userId);
+    const notional: number | undefined = response.data.proposal.estimatedNotional;
+    if (confirmationThreshold > 0 && notional !== undefined && notional <= confirmationThreshold) {
+      logger.info({ sessionId, notional, confirmationThreshold }, 'Trade under confirmation threshold, executing');
+      const executed = await this.commandRouter.confirmTrade(
+        response.data.parsedCommand,
+        response.data.proposal,
+        response.data.recommendation,
+        route
+      );
+
+      return {
+        ...executed,
+        view: { kind: 'trade_auto_confirmed', threshold: confirmationThreshold, proposal: response.view, execution: executed.view },
+        data: { ...executed.data, autoConfirmed: true, confirmationThreshold }
+      };
     }
+
+    const pending = await this.createPending(route, {
+      kind: 'trade',
+      userId,
+      parsedCommand: response.data.parsedCommand,
+      proposal: response.data.proposal,
+      recommendation: response.data.recommendation
+    });
+
+    return {
+      ...response,
+      data: {
+        ...response.data,
+        confirmationToken: pending.token,
+        expiresAt: pending.expiresAt
+      }
+    };
   }
 
-  private getRecentHistory(sessionId: string): any[] {
-    return this.commandHistory.get(sessionId)?.slice(-3) || [];
+  private async createPending(route: RouteContext, action: Omit<PendingAction, 'token' | 'sessionId' | 'createdAt' | 'expiresAt'>): Promise<PendingAction> {
+    const pending = await this.pendingConfirmations.create(route.sessionId || 'default', action);
+    notify(route.onProgress, { type: 'confirmation', kind: pending.kind, confirmationToken: pending.token, expiresAt: pending.expiresAt });
+    return pending;
   }
 
-  // Tool registration for MCP
+  // Results the router did not stamp, such as notices and confirmation prompts, report
+  // the user's current mode
+  private async withTradingMode(result: CommandResult, userId: string): Promise<CommandResult> {
+    if (result.tradingMode) {
+      return result;
+    }
+    return { ...result, tradingMode: await this.commandRouter.getTradingMode(userId) };
+  }
+
+  // Delivers alerts that fired since the user's last command alongside this response
+  private async withTriggeredAlerts(result: CommandResult, userId: string): Promise<CommandResult> {
+    const triggered = await this.commandRouter.drainTriggeredAlerts(userId);
+    if (triggered.length === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      triggeredAlerts: triggered,
+      data: { ...result.data, triggeredAlerts: triggered }
+    };
+  }
+
+  startAlertMonitoring(): void {
+    this.commandRouter.startAlertMonitoring();
+  }
+
+  // Tool registration for MCP; schemas come from the zod types that validate the calls
   getTools() {
     return [
       {
         name: 'command-agent.process',
         description: 'Process a natural language trading command',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            command: { type: 'string', description: 'Natural language command' },
-            userId: { type: 'string', description: 'User identifier' },
-            sessionId: { type: 'string', description: 'Session identifier' },
-            context: { type: 'object', description: 'Additional context' }
-          },
-          required: ['command']
-        }
+        inputSchema: toJSONSchema(CommandRequest),
+        outputSchema: toJSONSchema(CommandResponse)
+      },
+      {
+        name: 'command-agent.parse',
+        description: 'Parse a natural language command into structured commands without running it',
+        inputSchema: toJSONSchema(ParseToolInput),
+        outputSchema: toJSONSchema(ParseToolOutput)
+      },
+      {
+        name: 'command-agent.analyze_symbol',
+        description: 'Gather every swarm agent\'s view on a symbol and the consensus they reach, without proposing a trade',
+        inputSchema: toJSONSchema(AnalyzeSymbolToolInput),
+        outputSchema: toJSONSchema(AnalyzeSymbolToolOutput)
+      },
+      {
+        name: 'command-agent.list_alerts',
+        description: 'List the user\'s price alerts',
+        inputSchema: toJSONSchema(ListAlertsToolInput),
+        outputSchema: toJSONSchema(ListAlertsToolOutput)
+      },
+      {
+        name: 'command-agent.confirm',
+        description: 'Confirm or reject an action that is waiting for confirmation',
+        inputSchema: toJSONSchema(ConfirmToolInput),
+        outputSchema: toJSONSchema(CommandResponse)
+      },
+      {
+        name: 'command-agent.explain',
+        description: 'Show how a command was handled: the parse, each agent\'s report, the consensus, the risk check and any confirmation',
+        inputSchema: toJSONSchema(ExplainToolInput),
+        outputSchema: toJSONSchema(ExplainToolOutput)
       }
     ];
   }
 
-  async handleToolCall(toolName: string, input: any): Promise<any> {
+  // Invalid input throws ZodError. Only process and confirm act; the other tools only
+  // read, which every role may do, but still count against the caller's rate limit.
+  async handleToolCall(toolName: string, input: any, options: ProcessOptions = {}): Promise<any> {
+    const { identity, ip, onProgress } = options;
+    const user = (requested?: string) => identity?.userId ?? requested ?? 'anonymous';
+
     switch (toolName) {
       case 'command-agent.process':
-        return await this.processCommand(CommandRequest.parse(input));
+        return await this.processCommand(CommandRequest.parse(input), options);
+
+      case 'command-agent.parse': {
+        const { command, userId, sessionId = 'default' } = ParseToolInput.parse(input);
+        this.rateLimiter.checkRequest(user(userId), ip);
+        const history = await this.sessions.sessionHistory(user(userId), sessionId, 3);
+        const plan = await this.intentParser.parsePlan(command, {
+          history: history.map(({ command, response, success, timestamp }) => ({ command, response, success, timestamp }))
+        }, user(userId));
+        return { command: plan.steps[0].command, plan };
+      }
+
+      case 'command-agent.analyze_symbol': {
+        const { symbol, intent, userId } = AnalyzeSymbolToolInput.parse(input);
+        this.rateLimiter.checkRequest(user(userId), ip);
+        const { analysis, consensus } = await this.commandRouter.analyzeSymbol(symbol, intent, { userId: user(userId), onProgress });
+        return { symbol, intent, analysis, consensus };
+      }
+
+      case 'command-agent.list_alerts': {
+        const { symbol, includeInactive, userId } = ListAlertsToolInput.parse(input);
+        this.rateLimiter.checkRequest(user(userId), ip);
+        return { alerts: await this.commandRouter.listAlerts(user(userId), symbol, includeInactive) };
+      }
+
+      // The same path as answering yes or no in chat, so it is audited the same way
+      case 'command-agent.confirm': {
+        const { confirmationToken, decision, sessionId, userId } = ConfirmToolInput.parse(input);
+        return await this.processCommand({
+          command: decision === 'confirm' ? 'yes' : 'no',
+          userId,
+          sessionId,
+          context: { confirmationToken }
+        }, options);
+      }
+
+      // Admins may explain anyone's command, like GET /audit; others only their own.
+      // Without authentication the caller is whoever the input names.
+      case 'command-agent.explain': {
+        const { correlationId, userId } = ExplainToolInput.parse(input);
+        this.rateLimiter.checkRequest(user(userId), ip);
+        const owner = !identity ? user(userId) : hasRole(identity, 'admin') ? undefined : identity.userId;
+        const { records } = await this.audit.query(AuditQuery.parse({ correlationId, userId: owner }));
+        return { correlationId, records };
+      }
       
       default:
         throw new Error(`Unknown tool: ${toolName}`);
@@ -0,0 +1,65 @@
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { MCPClient } from './MCPClient.js';
+import { ConsensusPolicy, ConsensusPolicyOverride } from './types.js';
+import { DEFAULT_CONSENSUS_POLICY, mergePolicy } from './consensus.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:consensus' });
+
+function overrideKey(userId: string): string {
+  return `consensus.policy.users.${userId}`;
+}
+
+// CONSENSUS_POLICY_FILE holds the deployment's policy as JSON; a file that does not
+// validate stops startup rather than silently trading on the default.
+export function loadConsensusPolicy(file: string | undefined = process.env.CONSENSUS_POLICY_FILE): ConsensusPolicy {
+  if (!file) {
+    return DEFAULT_CONSENSUS_POLICY;
+  }
+
+  const policy = ConsensusPolicy.parse(JSON.parse(readFileSync(file, 'utf8')));
+  logger.info({ file, version: policy.version }, 'Consensus policy loaded');
+  return policy;
+}
+
+// Per-user overrides live in the config service and are read on every decision so an
+// operator's change applies to the next trade.
+export class ConsensusPolicyStore {
+  private mcp: MCPClient;
+  private base: ConsensusPolicy;
+
+  constructor(mcp: MCPClient, base: ConsensusPolicy = loadConsensusPolicy()) {
+    this.mcp = mcp;
+    this.base = base;
+  }
+
+  async getPolicy(userId: string): Promise<ConsensusPolicy> {
+    let raw: unknown;
+    try {
+      raw = (await this.mcp.call('config', 'config.get', { key: overrideKey(userId) }))?.value;
+    } catch (error) {
+      logger.warn({ userId, error: error instanceof Error ? error.message : error }, 'Failed to load consensus override');
+      return this.base;
+    }
+
+    if (!raw) {
+      return this.base;
+    }
+
+    const override = ConsensusPolicyOverride.safeParse(raw);
+    if (!override.success) {
+      logger.error({ userId, issues: override.error.issues }, 'Ignoring invalid consensus override');
+      return this.base;
+    }
+
+    try {
+      // Content hash identifies an unversioned override in the recorded policy version
+      const overrideId = createHash('sha256').update(JSON.stringify(override.data)).digest('hex').slice(0, 8);
+      return mergePolicy(this.base, override.data, `user:${overrideId}`);
+    } catch (error) {
+      logger.error({ userId, error: error instanceof Error ? error.message : error }, 'Ignoring consensus override that breaks the policy');
+      return this.base;
+    }
+  }
+}
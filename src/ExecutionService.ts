@@ -0,0 +1,254 @@
+import { randomUUID } from 'crypto';
+import { MCPClient } from './MCPClient.js';
+import { Order, OrderSpec, OrderStatus, TradingMode } from './types.js';
+import { PaperLedger } from './PaperLedger.js';
+import { MarketDataService } from './MarketDataService.js';
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:execution' });
+
+const OPEN_STATUSES: OrderStatus[] = ['SUBMITTED', 'PARTIALLY_FILLED'];
+
+// How many of a user's newest orders are kept listed, and of everyone's for a global halt
+const USER_ORDER_LIMIT = 200;
+const ALL_ORDER_LIMIT = 1000;
+
+export interface OrderRequest {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  qty: number;
+  spec: OrderSpec;
+}
+
+export function isOpenOrder(order: Order): boolean {
+  return OPEN_STATUSES.includes(order.status);
+}
+
+function orderKey(orderId: string): string {
+  return `orders.${orderId}`;
+}
+
+function userOrdersKey(userId: string): string {
+  return `orderIndex.users.${userId}`;
+}
+
+const ALL_ORDERS_KEY = 'orderIndex.all';
+
+// The execution service reports venue-style statuses; map them onto our lifecycle
+function normalizeStatus(status: unknown): OrderStatus {
+  switch (String(status || '').toLowerCase()) {
+    case 'partially_filled':
+    case 'partial':
+    case 'partial_fill':
+      return 'PARTIALLY_FILLED';
+    case 'filled':
+    case 'done':
+      return 'FILLED';
+    case 'rejected':
+    case 'failed':
+      return 'REJECTED';
+    case 'cancelled':
+    case 'canceled':
+    case 'expired':
+      return 'CANCELLED';
+    default:
+      return 'SUBMITTED';
+  }
+}
+
+// Orders live in storage, each under its id with newest-last id lists per user and
+// overall, so open orders and cancels survive restarts and reach every replica
+export class ExecutionService {
+  private mcp: MCPClient;
+  private paper: PaperLedger;
+  private storage: Storage;
+
+  constructor(mcp: MCPClient, paper: PaperLedger = new PaperLedger(new MarketDataService(mcp)), storage: Storage = getStorage()) {
+    this.mcp = mcp;
+    this.paper = paper;
+    this.storage = storage;
+  }
+
+  // Paper orders never reach the execution service; they fill against the ledger
+  async submitOrder(userId: string, request: OrderRequest, mode: TradingMode = 'live'): Promise<Order> {
+    if (mode === 'paper') {
+      return await this.submitPaperOrder(userId, request);
+    }
+
+    const now = new Date().toISOString();
+    const clientOrderId = randomUUID();
+
+    let order: Order;
+    try {
+      const result = await this.mcp.call('execution', 'execution.submit_order', {
+        clientOrderId,
+        userId,
+        symbol: request.symbol,
+        side: request.side,
+        qty: request.qty,
+        type: request.spec.orderType,
+        limitPrice: request.spec.limitPrice,
+        stopPrice: request.spec.stopPrice,
+        trailAmount: request.spec.trailAmount,
+        trailPercent: request.spec.trailPercent,
+        timeInForce: request.spec.timeInForce
+      });
+
+      order = {
+        orderId: result.orderId || clientOrderId,
+        userId,
+        symbol: request.symbol,
+        side: request.side,
+        qty: request.qty,
+        filledQty: result.filledQty || 0,
+        avgFillPrice: result.avgFillPrice,
+        ...request.spec,
+        status: normalizeStatus(result.status),
+        rejectReason: result.reason,
+        submittedAt: now,
+        updatedAt: now,
+        tradingMode: 'live'
+      };
+    } catch (error) {
+      // Record the failed submission so it still shows up in the user's order history
+      order = {
+        orderId: clientOrderId,
+        userId,
+        symbol: request.symbol,
+        side: request.side,
+        qty: request.qty,
+        filledQty: 0,
+        ...request.spec,
+        status: 'REJECTED',
+        rejectReason: error instanceof Error ? error.message : 'Execution service unavailable',
+        submittedAt: now,
+        updatedAt: now,
+        tradingMode: 'live'
+      };
+    }
+
+    await this.track(order);
+    logger.info({ orderId: order.orderId, userId, status: order.status }, 'Order submitted');
+
+    return order;
+  }
+
+  private async submitPaperOrder(userId: string, request: OrderRequest): Promise<Order> {
+    const now = new Date().toISOString();
+    const fill = await this.paper.fill(userId, request).catch((error): { ok: false; reason: string } => ({
+      ok: false,
+      reason: error instanceof Error ? error.message : 'Paper ledger unavailable'
+    }));
+
+    const order: Order = {
+      orderId: `paper-${randomUUID()}`,
+      userId,
+      symbol: request.symbol,
+      side: request.side,
+      qty: request.qty,
+      filledQty: fill.ok ? request.qty : 0,
+      avgFillPrice: fill.ok ? fill.price : undefined,
+      ...request.spec,
+      status: fill.ok ? 'FILLED' : 'REJECTED',
+      rejectReason: fill.ok ? undefined : fill.reason,
+      submittedAt: now,
+      updatedAt: now,
+      tradingMode: 'paper',
+      commission: fill.ok ? fill.commission : undefined
+    };
+
+    await this.track(order);
+    logger.info({ orderId: order.orderId, userId, status: order.status }, 'Paper order submitted');
+
+    return order;
+  }
+
+  async getOrder(orderId: string): Promise<Order | undefined> {
+    return await this.storage.get<Order>(orderKey(orderId));
+  }
+
+  async refreshOrder(orderId: string): Promise<Order | undefined> {
+    const order = await this.getOrder(orderId);
+    if (!order || !isOpenOrder(order)) {
+      return order;
+    }
+
+    try {
+      const result = await this.mcp.call('execution', 'execution.get_order', { orderId });
+      const updated: Order = {
+        ...order,
+        status: normalizeStatus(result.status),
+        filledQty: result.filledQty ?? order.filledQty,
+        avgFillPrice: result.avgFillPrice ?? order.avgFillPrice,
+        rejectReason: result.reason ?? order.rejectReason,
+        updatedAt: new Date().toISOString()
+      };
+      await this.storage.set(orderKey(orderId), updated);
+      return updated;
+    } catch (error) {
+      logger.warn({ orderId, error: error instanceof Error ? error.message : error }, 'Failed to refresh order');
+      return order;
+    }
+  }
+
+  async cancelOrder(orderId: string): Promise<Order> {
+    const order = await this.getOrder(orderId);
+    if (!order) {
+      throw new Error(`Unknown order: ${orderId}`);
+    }
+    if (!isOpenOrder(order)) {
+      throw new Error(`Order ${orderId} is already ${order.status.toLowerCase()}`);
+    }
+
+    const result = await this.mcp.call('execution', 'execution.cancel_order', { orderId });
+    const updated: Order = {
+      ...order,
+      // A cancel can race a fill; trust the status the venue reports back
+      status: result.status ? normalizeStatus(result.status) : 'CANCELLED',
+      filledQty: result.filledQty ?? order.filledQty,
+      updatedAt: new Date().toISOString()
+    };
+    await this.storage.set(orderKey(orderId), updated);
+    logger.info({ orderId, status: updated.status }, 'Order cancel requested');
+
+    return updated;
+  }
+
+  // Omitting userId returns open orders across all users
+  async getOpenOrders(userId?: string): Promise<Order[]> {
+    const open = (await this.getUserOrders(userId)).filter(isOpenOrder);
+    const refreshed = await Promise.all(open.map(order => this.refreshOrder(order.orderId)));
+    return refreshed.filter((order): order is Order => !!order && isOpenOrder(order));
+  }
+
+  // Notional filled on orders submitted through this agent since the given time, in
+  // one account
+  async getExecutedNotional(userId: string, since: Date, mode: TradingMode = 'live'): Promise<number> {
+    return (await this.getUserOrders(userId))
+      .filter(order => (order.tradingMode ?? 'live') === mode)
+      .filter(order => order.filledQty > 0 && order.avgFillPrice !== undefined && new Date(order.submittedAt) >= since)
+      .reduce((total, order) => total + order.filledQty * order.avgFillPrice!, 0);
+  }
+
+  // Most recent first; the id lists keep submission order
+  async getUserOrders(userId?: string): Promise<Order[]> {
+    const ids = userId === undefined
+      ? await this.storage.range<string>(ALL_ORDERS_KEY, ALL_ORDER_LIMIT)
+      : await this.storage.range<string>(userOrdersKey(userId), USER_ORDER_LIMIT);
+    const orders = await Promise.all(ids.reverse().map(orderId => this.getOrder(orderId)));
+    return orders.filter((order): order is Order => order !== undefined);
+  }
+
+  // The order is already at the venue, so a storage failure is logged, not thrown
+  private async track(order: Order): Promise<void> {
+    try {
+      await this.storage.set(orderKey(order.orderId), order);
+      await this.storage.append(userOrdersKey(order.userId), order.orderId, USER_ORDER_LIMIT);
+      await this.storage.append(ALL_ORDERS_KEY, order.orderId, ALL_ORDER_LIMIT);
+    } catch (error) {
+      logger.error({ orderId: order.orderId, error: error instanceof Error ? error.message : error }, 'Failed to store order');
+    }
+  }
+}
@@ -0,0 +1,509 @@
+import { ParsedCommand, CommandIntentType, ExtractedEntities, AlertCondition, CommandPlan, PlanStep, RelativeSize, SettingUpdate } from './types.js';
+import { findSector } from './sectors.js';
+
+// Rule-based parser used when the LLM is unavailable, and standalone when
+// INTENT_PARSER_MODE=offline. Every rule is deterministic so results are
+// reproducible in tests and confidence reflects how much of the command matched.
+
+const POLITE_PREFIX = /^(?:(?:please|pls|kindly|hey|ok|okay|can you|could you|would you|i want to|i wanna|i'd like to|i would like to|let's|lets|go ahead and)\s+)+/;
+
+const QUESTION_START = /^(?:what|what's|whats|which|who|when|where|why|how|how's|did|do|does|is|are|was|were|should|have|has)\b/;
+
+const COMPANY_SYMBOLS: Record<string, string> = {
+  apple: 'AAPL',
+  tesla: 'TSLA',
+  nvidia: 'NVDA',
+  microsoft: 'MSFT',
+  amazon: 'AMZN',
+  google: 'GOOGL',
+  alphabet: 'GOOGL',
+  meta: 'META',
+  facebook: 'META',
+  netflix: 'NFLX',
+  amd: 'AMD',
+  intel: 'INTC',
+  bitcoin: 'BTC',
+  ethereum: 'ETH'
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'at', 'for', 'in', 'on', 'to', 'my', 'me', 'i', 'it', 'is', 'if', 'by',
+  'buy', 'sell', 'purchase', 'get', 'dump', 'short', 'all', 'now', 'some', 'more', 'few', 'any', 'this', 'that',
+  'share', 'shares', 'worth', 'usd', 'dollar', 'dollars', 'with', 'when', 'what', 'how', 'why', 'who', 'set',
+  'alert', 'alerts', 'stop', 'halt', 'please', 'price', 'hits', 'above', 'below', 'over', 'under', 'day', 'days',
+  'week', 'month', 'year', 'today', 'order', 'orders', 'limit', 'market', 'cancel', 'show', 'list', 'my', 'your',
+  'status', 'trade', 'trades', 'trading', 'position', 'stock', 'stocks', 'into', 'from', 'up', 'down', 'its',
+  'than', 'be', 'do', 'did', 'go', 'let', 'know', 'tell', 'next', 'last', 'per', 'ok', 'yes', 'no', 'am', 'pm',
+  'half', 'quarter', 'third', 'most', 'whole', 'entire', 'every', 'cash', 'money', 'them', 'those', 'these', 'put',
+  'three', 'quarters', 'thirds', 'tech', 'semis', 'banks', 'reit', 'reits', 'oil', 'media'
+]);
+
+// Words after which the next non-filler word is likely the ticker
+const SYMBOL_ANCHORS = new Set(['buy', 'sell', 'purchase', 'short', 'of', 'on', 'for', 'into', 'in', 'the']);
+
+const SETTINGS_WORDS = /\b(settings|preferences|config|configuration|my limits)\b/;
+// "my recent commands", "command history"; "my order history" is a trade query
+const HISTORY_WORDS = /\b(commands|command history)\b/;
+
+const CLAUSE_VERB = '(?:buy|purchase|sell|dump|put|invest|set|alert|notify|cancel|show|list|stop|halt|resume|analy[sz]e|close|trim|exit)';
+
+// Splits "sell X and buy Y" / "buy X, then alert me..." only where the next clause opens with a verb
+const CLAUSE_SPLIT = new RegExp(`(?:\\s*,\\s*(?:and\\s+)?(?:then\\s+)?|\\s+(?:and\\s+then|and|then)\\s+)(?=${CLAUSE_VERB}\\b)`, 'i');
+
+// Intents where a clause without a ticker refers to the previous clause's ticker
+const SYMBOL_CARRYOVER: CommandIntentType[] = ['BUY', 'SELL', 'ALERT', 'ANALYZE'];
+
+interface IntentMatch {
+  intent: CommandIntentType;
+  // 1 when the command opens with the intent's verb, lower when only implied
+  strength: number;
+}
+
+export function parseAmount(value: string, suffix?: string): number {
+  const base = parseFloat(value.replace(/,/g, ''));
+  switch ((suffix || '').toLowerCase()) {
+    case 'k':
+      return base * 1_000;
+    case 'm':
+    case 'mm':
+      return base * 1_000_000;
+    case 'b':
+      return base * 1_000_000_000;
+    default:
+      return base;
+  }
+}
+
+const NUMBER = '(\\d[\\d,]*(?:\\.\\d+)?)\\s*(k|mm|m|b)?\\b';
+
+const FRACTION_WORDS: Record<string, number> = {
+  all: 100,
+  everything: 100,
+  entire: 100,
+  whole: 100,
+  half: 50,
+  third: 33.33,
+  quarter: 25,
+  'three quarters': 75
+};
+
+const SIZE_BASIS = '(portfolio|account|cash|buying power|position|holdings?|stake|shares)';
+
+export class GrammarParser {
+  parsePlan(command: string): CommandPlan {
+    const clauses = command.split(CLAUSE_SPLIT).map(clause => clause.trim()).filter(Boolean);
+    const steps: PlanStep[] = [];
+
+    for (const clause of clauses) {
+      const parsed = this.parse(clause);
+      const previous = steps[steps.length - 1];
+
+      if (!parsed.entities.symbol && previous?.command.entities.symbol && SYMBOL_CARRYOVER.includes(parsed.intent)) {
+        parsed.entities.symbol = previous.command.entities.symbol;
+      }
+
+      // "put the proceeds into NVDA" funds this trade from the previous one
+      const usesProceeds = previous && /\b(proceeds|that money|the money|the cash)\b/i.test(clause);
+      // "half the proceeds" is a share of the earlier trade, not of the portfolio
+      const fraction = usesProceeds && parsed.entities.relativeSize ? parsed.entities.relativeSize.percent / 100 : 1;
+      if (usesProceeds) delete parsed.entities.relativeSize;
+      const amountFrom = usesProceeds ? { step: previous.id, fraction } : undefined;
+
+      steps.push({
+        id: `s${steps.length + 1}`,
+        command: parsed,
+        dependsOn: amountFrom ? [amountFrom.step] : [],
+        amountFrom
+      });
+    }
+
+    return { originalText: command, steps };
+  }
+
+  parse(command: string): ParsedCommand {
+    const text = command.trim().toLowerCase().replace(/\s+/g, ' ');
+    const body = text.replace(POLITE_PREFIX, '');
+
+    const match = this.matchIntent(body);
+    const entities = this.extractEntities(command, body, match.intent);
+    const confidence = this.scoreConfidence(match, entities);
+
+    return {
+      intent: match.intent,
+      entities,
+      originalText: command,
+      confidence,
+      needsConfirmation: match.intent === 'BUY' || match.intent === 'SELL' || match.intent === 'RESUME'
+    };
+  }
+
+  private matchIntent(body: string): IntentMatch {
+    const isQuestion = QUESTION_START.test(body) || body.endsWith('?');
+
+    // Questions never place trades: "what did I buy yesterday" is a query
+    if (isQuestion) {
+      if (/^why\b/.test(body) || /\b(perform|performance|sharpe|volatility|drawdown|attribution|drop|dropped|fell|gain|gained|rise|rose)\b/.test(body)) {
+        return { intent: 'ANALYZE', strength: 0.85 };
+      }
+      if (/\b(open|pending)\s+orders?\b/.test(body)) {
+        return { intent: 'ORDERS', strength: 0.85 };
+      }
+      if (HISTORY_WORDS.test(body)) {
+        return { intent: 'HISTORY', strength: 0.85 };
+      }
+      if (SETTINGS_WORDS.test(body)) {
+        return { intent: 'CONFIG', strength: 0.85 };
+      }
+      if (/\balerts?\b/.test(body)) {
+        return { intent: 'ALERT', strength: 0.8 };
+      }
+      if (/\b(status|portfolio|positions?|balance|holdings|account|p&l|pnl)\b/.test(body) && !/\b(did|was|were)\b/.test(body)) {
+        return { intent: 'STATUS', strength: 0.85 };
+      }
+      return { intent: 'QUERY', strength: 0.6 };
+    }
+
+    if (/^(resume|unpause|unhalt|restart|re-enable)\b/.test(body) || /\b(resume|unhalt)\s+trading\b/.test(body)) {
+      return { intent: 'RESUME', strength: 1 };
+    }
+
+    if (/^(cancel|delete|remove|show|list|view)\b.*\balerts?\b/.test(body)) {
+      return { intent: 'ALERT', strength: 1 };
+    }
+
+    if (/^(show|list|view|display)\b/.test(body) && SETTINGS_WORDS.test(body)) {
+      return { intent: 'CONFIG', strength: 1 };
+    }
+
+    if (/^(show|list|view|display)\b/.test(body) && HISTORY_WORDS.test(body)) {
+      return { intent: 'HISTORY', strength: 1 };
+    }
+
+    if (/^(cancel|pull|show|list|view)\b.*\borders?\b/.test(body) || /^(open|pending) orders?\b/.test(body)) {
+      return { intent: 'ORDERS', strength: 1 };
+    }
+
+    if (/^(alert|notify|ping|warn)\b/.test(body) || /^(let me know|tell me when|set (an? )?alert|create (an? )?alert)\b/.test(body)) {
+      return { intent: 'ALERT', strength: 1 };
+    }
+
+    // "stop loss" / "stop limit" are order types, not the kill switch
+    if (/^(stop|halt|pause|freeze|kill|emergency)\b(?![- ](loss|limit|order|price))/.test(body) || /\bkill switch\b/.test(body)) {
+      return { intent: 'STOP', strength: 1 };
+    }
+
+    if (/^(buy|purchase|acquire|get me|long|add|put|invest)\b/.test(body)) {
+      return { intent: 'BUY', strength: 1 };
+    }
+
+    if (/^(sell|dump|unload|exit|close|trim|short|liquidate)\b/.test(body)) {
+      return { intent: 'SELL', strength: 1 };
+    }
+
+    if (/^(analy[sz]e|explain|break down|review|evaluate|assess)\b/.test(body)) {
+      return { intent: 'ANALYZE', strength: 1 };
+    }
+
+    if (/^(set|change|update|configure|turn|enable|disable|require|use|switch|always)\b/.test(body)) {
+      return { intent: 'CONFIG', strength: 0.9 };
+    }
+
+    if (/^(status|portfolio|positions?|balance|holdings|show (me )?(my )?(status|portfolio|positions|balance|holdings))\b/.test(body)) {
+      return { intent: 'STATUS', strength: 1 };
+    }
+
+    // Keywords that appear mid-sentence carry less weight than a leading verb
+    if (/\b(buy|purchase)\b/.test(body)) return { intent: 'BUY', strength: 0.7 };
+    if (/\bsell\b/.test(body)) return { intent: 'SELL', strength: 0.7 };
+    if (/\b(alert|notify)\b/.test(body)) return { intent: 'ALERT', strength: 0.7 };
+    if (/\b(status|portfolio|positions|balance)\b/.test(body)) return { intent: 'STATUS', strength: 0.6 };
+
+    return { intent: 'QUERY', strength: 0.3 };
+  }
+
+  private extractEntities(original: string, body: string, intent: CommandIntentType): ExtractedEntities {
+    const entities: ExtractedEntities = {};
+
+    const symbol = this.extractSymbol(original, body);
+    if (symbol) entities.symbol = symbol;
+
+    if (intent === 'BUY' || intent === 'SELL') {
+      Object.assign(entities, this.extractTradeSize(body, intent));
+    } else {
+      // Skipped for trades, where "$1.5m" would otherwise read as a timeframe
+      const timeframe = this.extractTimeframe(body);
+      if (timeframe) entities.timeframe = timeframe;
+    }
+
+    if (intent === 'ALERT') {
+      entities.action = /^(cancel|delete|remove)\b/.test(body) ? 'cancel'
+        : /^(show|list|view)\b/.test(body) || QUESTION_START.test(body) ? 'list'
+        : 'create';
+
+      if (entities.action === 'create') {
+        const condition = this.extractCondition(body);
+        if (condition) entities.condition = condition;
+
+        const expiresIn = body.match(/\b(?:for the next|for|expires? in|within)\s+(\d+)\s*(day|week|month|year)s?\b/);
+        if (expiresIn) entities.expiresIn = `${expiresIn[1]}${this.unitCode(expiresIn[2])}`;
+      }
+    }
+
+    if (intent === 'STATUS' || intent === 'ANALYZE') {
+      const sector = findSector(body);
+      if (sector) entities.sector = sector;
+    }
+
+    if (intent === 'CONFIG') {
+      const setting = this.extractSetting(body);
+      if (setting) entities.setting = setting;
+      else if (SETTINGS_WORDS.test(body)) entities.action = 'list';
+    }
+
+    if (intent === 'ORDERS') {
+      entities.action = /^(cancel|pull)\b/.test(body) ? 'cancel' : 'list';
+    }
+
+    if (intent === 'HISTORY') {
+      const count = body.match(/\b(?:last|past|recent|previous)\s+(\d+)\b/);
+      if (count) entities.count = Number(count[1]);
+    }
+
+    if (intent === 'STOP' || intent === 'RESUME') {
+      entities.scope = /\b(global|globally|everyone|everybody|all users|whole swarm|firm-wide)\b/.test(body) ? 'global' : 'user';
+    }
+
+    return entities;
+  }
+
+  private extractSymbol(original: string, body: string): string | undefined {
+    const cashtag = original.match(/\$([A-Za-z]{1,5})\b/);
+    if (cashtag) return cashtag[1].toUpperCase();
+
+    for (const [name, symbol] of Object.entries(COMPANY_SYMBOLS)) {
+      if (new RegExp(`\\b${name}\\b`).test(body)) return symbol;
+    }
+
+    // A word following a trade verb or preposition, e.g. "buy spy", "$500 of aapl"
+    const tokens = body.split(' ').map(token => token.replace(/[^a-z0-9.$]/g, ''));
+    for (let i = 0; i < tokens.length; i++) {
+      if (!SYMBOL_ANCHORS.has(tokens[i])) continue;
+
+      // Skip filler like "half my", "10 shares of" to reach the ticker
+      let j = i + 1;
+      while (j < tokens.length && (STOPWORDS.has(tokens[j]) || /^\$?\d/.test(tokens[j]))) j++;
+
+      const candidate = tokens[j];
+      if (candidate && /^[a-z]{1,5}(?:\.[a-z])?$/.test(candidate)) return candidate.toUpperCase();
+    }
+
+    // Upper-case tickers anywhere, unless the whole command is shouted
+    if (original !== original.toUpperCase()) {
+      for (const candidate of original.matchAll(/\b([A-Z]{1,5})\b/g)) {
+        if (!STOPWORDS.has(candidate[1].toLowerCase())) return candidate[1];
+      }
+    }
+
+    return undefined;
+  }
+
+  private extractTradeSize(body: string, side: 'BUY' | 'SELL'): Partial<ExtractedEntities> {
+    const size: Partial<ExtractedEntities> = {};
+
+    const quantity = body.match(new RegExp(`\\b${NUMBER}\\s*(?:shares?|units?|contracts?)\\b`))
+      || body.match(/^(?:buy|sell|purchase|short)\s+(\d[\d,]*)\s+(?!dollars?\b|usd\b|bucks\b)[a-z]{1,5}\b/);
+    if (quantity) size.quantity = parseAmount(quantity[1], quantity[2]);
+
+    // "$5k of", "$5,000 worth", "5k dollars", "5000 usd", "1.5m of"; not prices like "at $170"
+    // or "$2 trailing stop". A bare number needs a k/m/b suffix to read as dollars.
+    const amount = body.match(new RegExp(`(?<!(?:at|@|to|limit|hits|above|below|stop|loss)\\s)\\$${NUMBER}(?!\\s*(?:(?:a|per)\\s+share|trailing))`))
+      || body.match(new RegExp(`\\b${NUMBER}\\s*(?:dollars?|usd|bucks)\\b`))
+      || body.match(/\b(\d[\d,]*(?:\.\d+)?)\s*(k|mm|m|b)\s+(?:of|worth)\b/);
+    if (amount) size.amount = parseAmount(amount[1], amount[2]);
+
+    if (!quantity && !amount) {
+      const relativeSize = this.extractRelativeSize(body, side);
+      if (relativeSize) size.relativeSize = relativeSize;
+    }
+
+    Object.assign(size, this.extractOrderType(body, side));
+
+    return size;
+  }
+
+  // "half my TSLA", "10% of my portfolio", "all my cash"; sells default to the held
+  // position and buys to cash when no basis is named
+  private extractRelativeSize(body: string, side: 'BUY' | 'SELL'): RelativeSize | undefined {
+    const basisOf = (word?: string): RelativeSize['of'] =>
+      !word ? (side === 'SELL' ? 'position' : 'cash')
+        : /portfolio|account/.test(word) ? 'portfolio'
+        : /cash|buying power/.test(word) ? 'cash'
+        : 'position';
+
+    const percent = body.match(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*%\\s*of\\s+(?:(?:my|the|our)\\s+)?${SIZE_BASIS}?`));
+    if (percent) {
+      const value = parseFloat(percent[1]);
+      if (value > 0 && value <= 100) return { percent: value, of: basisOf(percent[2]) };
+    }
+
+    const fraction = body.match(new RegExp(`\\b(?:(?:a|one)\\s+)?(${Object.keys(FRACTION_WORDS).join('|')})\\b(?:\\s+(?:of\\s+)?(?:my|the|our|it|them))?(?:\\s+${SIZE_BASIS})?`));
+    if (fraction) {
+      return { percent: FRACTION_WORDS[fraction[1]], of: basisOf(fraction[2]) };
+    }
+
+    // "close my TSLA position", "exit NVDA" mean the whole holding
+    if (side === 'SELL' && /^(exit|close|liquidate)\b/.test(body)) {
+      return { percent: 100, of: 'position' };
+    }
+
+    return undefined;
+  }
+
+  private extractSetting(body: string): SettingUpdate | undefined {
+    const dollars = (text: string) => {
+      const match = text.match(new RegExp(`\\$?\\s*${NUMBER}`));
+      return match ? parseAmount(match[1], match[2]) : undefined;
+    };
+
+    const limit = body.match(/\bmax(?:imum)?\s+(position|single|order|trade|gross|total|exposure|portfolio exposure)\b(?:\s+(?:size|value|exposure|limit))?\s+(?:to|at|=|of)?\s*(.*)$/);
+    if (limit) {
+      const value = dollars(limit[2]);
+      if (value === undefined) return undefined;
+      return { key: /gross|total|exposure/.test(limit[1]) ? 'maxGrossExposure' : 'maxPositionValue', value };
+    }
+
+    if (/\bconfirm(?:ation|ations)?\b/.test(body)) {
+      if (/\b(every|all|each)\b|\balways\b/.test(body)) return { key: 'confirmationThreshold', value: 0 };
+      const over = body.match(/\b(?:over|above|larger than|bigger than|more than)\s+(.*)$/);
+      const value = over ? dollars(over[1]) : undefined;
+      return value === undefined ? undefined : { key: 'confirmationThreshold', value };
+    }
+
+    // "switch to paper trading", "turn off paper mode", "switch to live trading"
+    if (/\bpaper\b|\blive (trading|mode|account)\b/.test(body)) {
+      const live = /\blive\b/.test(body) || /\b(off|disable|stop)\b/.test(body);
+      return { key: 'paperTrading', value: !live };
+    }
+
+    // Plain mode is persona mode switched off, so turning plain off turns personas on
+    if (/\b(persona|personas|characters?|plain mode|plain text)\b/.test(body)) {
+      const plain = /\bplain\b/.test(body);
+      const off = /\b(off|disable|no|stop)\b/.test(body);
+      return { key: 'personaMode', value: plain ? off : !off };
+    }
+
+    return undefined;
+  }
+
+  private extractOrderType(body: string, side: 'BUY' | 'SELL'): Partial<ExtractedEntities> {
+    const order: Partial<ExtractedEntities> = {};
+    const price = '\\$?\\s*(\\d[\\d,]*(?:\\.\\d+)?)';
+
+    const trailPercent = body.match(/(\d+(?:\.\d+)?)\s*%\s*trailing stop|trailing stop (?:of |at )?(\d+(?:\.\d+)?)\s*%/);
+    const trailAmount = body.match(/\$(\d+(?:\.\d+)?)\s*trailing stop|trailing stop (?:of |at )?\$(\d+(?:\.\d+)?)/);
+
+    if (trailPercent || trailAmount) {
+      order.orderType = 'TRAILING_STOP';
+      if (trailPercent) order.trailPercent = parseFloat(trailPercent[1] || trailPercent[2]);
+      else if (trailAmount) order.trailAmount = parseFloat(trailAmount[1] || trailAmount[2]);
+    } else {
+      const stop = body.match(new RegExp(`\\bstop(?:[- ]loss)?(?:[- ]limit)?\\s*(?:at|@|of)?\\s*${price}`));
+      if (stop) order.stopPrice = parseAmount(stop[1]);
+
+      // The "limit" of a "stop limit at 180" names the order type, not the limit price
+      const limit = body.match(new RegExp(`(?<!stop[- ])\\blimit(?: price)?\\s*(?:at|@|of)?\\s*${price}`));
+      if (limit) order.limitPrice = parseAmount(limit[1]);
+
+      // A buy that waits for a dip is a limit order; one that waits for a breakout is a stop.
+      // Sells mirror that: a drop triggers a stop, a rally fills a limit.
+      const conditional = body.match(new RegExp(`\\bif it (dips|drops|falls|sinks|rises|climbs|breaks|gets|hits)(?: above| below| to| back to)?\\s*${price}`));
+      if (conditional) {
+        const falling = ['dips', 'drops', 'falls', 'sinks'].includes(conditional[1]);
+        const rising = ['rises', 'climbs', 'breaks'].includes(conditional[1]);
+        const level = parseAmount(conditional[2]);
+        if ((side === 'BUY' && rising) || (side === 'SELL' && falling)) {
+          order.stopPrice = level;
+        } else {
+          order.limitPrice = level;
+        }
+      }
+
+      const at = body.match(new RegExp(`(?<!stop(?:[- ]loss)?\\s)(?:\\bat|@)\\s*${price}`));
+      if (at && order.limitPrice === undefined && order.stopPrice === undefined) order.price = parseAmount(at[1]);
+
+      if (/\bmarket( order)?\b|\bat (the )?market\b/.test(body)) order.orderType = 'MARKET';
+      else if (/\bstop[- ]limit\b/.test(body)) order.orderType = 'STOP_LIMIT';
+    }
+
+    if (/\b(gtc|good[- ]?(?:til|till|until)[- ]?cancel+ed)\b/.test(body)) order.timeInForce = 'GTC';
+    else if (/\b(ioc|immediate[- ]or[- ]cancel)\b/.test(body)) order.timeInForce = 'IOC';
+    else if (/\b(day order|for the day|good for the day)\b/.test(body)) order.timeInForce = 'DAY';
+
+    return order;
+  }
+
+  private extractCondition(body: string): AlertCondition | undefined {
+    const percent = body.match(/(\d+(?:\.\d+)?)\s*%/);
+    if (percent) {
+      const direction = /\b(drops?|falls?|down|declines?|loses?|sinks?)\b/.test(body) ? 'down'
+        : /\b(rises?|jumps?|up|gains?|climbs?|pops?)\b/.test(body) ? 'up'
+        : 'either';
+      return {
+        type: 'percent_move',
+        percent: parseFloat(percent[1]),
+        direction,
+        timeframe: this.extractTimeframe(body) || '1d'
+      };
+    }
+
+    const level = body.match(new RegExp(`\\$\\s*${NUMBER}`)) || body.match(/\b(?:at|hits|reaches|crosses|above|below|over|under|to)\s+(\d[\d,]*(?:\.\d+)?)\b/);
+    if (!level) return undefined;
+
+    const price = parseAmount(level[1], level[2]);
+    const type = /\b(above|over|rises|climbs|exceeds|breaks)\b/.test(body) ? 'above'
+      : /\b(below|under|drops|dips|falls|sinks)\b/.test(body) ? 'below'
+      : 'crosses';
+
+    return { type, price };
+  }
+
+  private extractTimeframe(body: string): string | undefined {
+    const literal = body.match(/\b(\d+)(d|w|m|y)\b/);
+    if (literal) return `${literal[1]}${literal[2]}`;
+
+    const counted = body.match(/\b(?:last|past|over the|in the last)?\s*(\d+)\s*(day|week|month|year)s?\b/);
+    if (counted) return `${counted[1]}${this.unitCode(counted[2])}`;
+
+    if (/\b(today|yesterday|intraday|daily)\b/.test(body)) return '1d';
+    if (/\b(this|last|past) week\b|\bweekly\b/.test(body)) return '1w';
+    if (/\b(this|last|past) month\b|\bmonthly\b/.test(body)) return '1m';
+    if (/\b(this|last|past) year\b|\bytd\b|\byearly\b/.test(body)) return '1y';
+
+    return undefined;
+  }
+
+  private unitCode(unit: string): string {
+    return unit.startsWith('day') ? 'd' : unit.startsWith('week') ? 'w' : unit.startsWith('month') ? 'm' : 'y';
+  }
+
+  // Start from how clearly the intent was stated, then discount for required
+  // entities that are missing so callers can tell a guess from a match
+  private scoreConfidence(match: IntentMatch, entities: ExtractedEntities): number {
+    let confidence = 0.9 * match.strength;
+
+    switch (match.intent) {
+      case 'BUY':
+      case 'SELL':
+        if (!entities.symbol) confidence *= 0.5;
+        break;
+      case 'ALERT':
+        if (entities.action === 'create' && (!entities.symbol || !entities.condition)) confidence *= 0.6;
+        break;
+      case 'CONFIG':
+        if (!entities.setting && entities.action !== 'list') confidence *= 0.6;
+        break;
+    }
+
+    return Math.round(confidence * 100) / 100;
+  }
+}
@@ -0,0 +1,51 @@
+export interface ServiceHealth {
+  service: string;
+  reachable: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export class MCPClient {
+  private mcpHostUrl: string;
+
+  constructor(mcpHostUrl: string = 'http://localhost:4000') {
+    this.mcpHostUrl = mcpHostUrl.replace(/\/$/, '');
+  }
+
+  async call(service: string, tool: string, input: any, signal?: AbortSignal): Promise<any> {
+    const url = `${this.mcpHostUrl}/call/${service}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-agent-role': 'neural_command'
+      },
+      body: JSON.stringify({ tool, input }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`MCP service ${service} error: ${response.status} ${errorText}`);
+    }
+
+    return await response.json();
+  }
+
+  // Calls the service's `<service>.health` tool; only a successful answer within the timeout counts as reachable
+  async probe(service: string, timeoutMs: number = Number(process.env.MCP_PROBE_TIMEOUT_MS || 2000)): Promise<ServiceHealth> {
+    const started = Date.now();
+
+    try {
+      await this.call(service, `${service}.health`, {}, AbortSignal.timeout(timeoutMs));
+      return { service, reachable: true, latencyMs: Date.now() - started };
+    } catch (error) {
+      return {
+        service,
+        reachable: false,
+        latencyMs: Date.now() - started,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+}
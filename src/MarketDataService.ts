@@ -0,0 +1,50 @@
+import { MCPClient } from './MCPClient.js';
+import { toISODate } from './timeframe.js';
+
+export interface Bar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Enough calendar days to reach the last session across a long weekend
+const LATEST_CLOSE_LOOKBACK_MS = 10 * 24 * 60 * 60 * 1000;
+
+// Daily OHLCV history from the market-data service, oldest first
+export class MarketDataService {
+  private mcp: MCPClient;
+
+  constructor(mcp: MCPClient) {
+    this.mcp = mcp;
+  }
+
+  async getDailyBars(symbol: string, lookbackMs: number): Promise<Bar[]> {
+    const data = await this.mcp.call('market-data', 'market-data.get_ohlcv', {
+      symbol,
+      start: toISODate(new Date(Date.now() - lookbackMs)),
+      end: toISODate(new Date()),
+      interval: '1d'
+    });
+
+    // Rows without a close are gaps in the feed, not zero prices
+    return (data.rows || [])
+      .filter((row: any) => typeof row.close === 'number')
+      .map((row: any): Bar => ({
+        date: String(row.date ?? row.timestamp ?? ''),
+        open: row.open ?? row.close,
+        high: row.high ?? row.close,
+        low: row.low ?? row.close,
+        close: row.close,
+        volume: row.volume ?? 0
+      }));
+  }
+
+  // The last session's close, or undefined when the feed has none for the symbol
+  async getLatestClose(symbol: string): Promise<number | undefined> {
+    const bars = await this.getDailyBars(symbol, LATEST_CLOSE_LOOKBACK_MS);
+    return bars[bars.length - 1]?.close;
+  }
+}
@@ -0,0 +1,175 @@
+import { MarketDataService } from './MarketDataService.js';
+import { OrderRequest } from './ExecutionService.js';
+import { PortfolioSnapshot, Position, TradingMode } from './types.js';
+import { formatUsd } from './quantity.js';
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:paper' });
+
+export interface PaperTradingConfig {
+  // TRADING_MODE=paper puts every user on paper, whatever their own setting
+  mode: TradingMode;
+  startingCash: number;
+  slippageBps: number;
+  commissionPerShare: number;
+  minCommission: number;
+}
+
+export function loadPaperTradingConfig(env: NodeJS.ProcessEnv = process.env): PaperTradingConfig {
+  return {
+    mode: env.TRADING_MODE === 'paper' ? 'paper' : 'live',
+    startingCash: Number(env.PAPER_STARTING_CASH || 100000),
+    slippageBps: Number(env.PAPER_SLIPPAGE_BPS || 5),
+    commissionPerShare: Number(env.PAPER_COMMISSION_PER_SHARE || 0.005),
+    minCommission: Number(env.PAPER_MIN_COMMISSION || 1)
+  };
+}
+
+interface PaperPosition {
+  qty: number;
+  avgCost: number;
+}
+
+interface LedgerState {
+  cash: number;
+  positions: Record<string, PaperPosition>;
+  realizedPnl: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PaperFill =
+  | { ok: true; price: number; commission: number; cash: number }
+  | { ok: false; reason: string };
+
+function ledgerKey(userId: string): string {
+  return `paper.${userId}.ledger`;
+}
+
+function cents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// A simulated account per user: cash and positions in storage, filled against the
+// latest market-data close with slippage and commission. Orders fill in full at once
+// or not at all, so there are never working paper orders. Fills for one user run one
+// at a time in this process; replicas sharing storage can still race.
+export class PaperLedger {
+  private marketData: MarketDataService;
+  private storage: Storage;
+  private config: PaperTradingConfig;
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(marketData: MarketDataService, storage: Storage = getStorage(), config: PaperTradingConfig = loadPaperTradingConfig()) {
+    this.marketData = marketData;
+    this.storage = storage;
+    this.config = config;
+  }
+
+  get deploymentMode(): TradingMode {
+    return this.config.mode;
+  }
+
+  async fill(userId: string, request: OrderRequest): Promise<PaperFill> {
+    return this.serialize(userId, async () => {
+      const { symbol, side, qty, spec } = request;
+
+      if (spec.orderType !== 'MARKET' && spec.orderType !== 'LIMIT') {
+        return { ok: false, reason: `Paper trading fills market and limit orders only, not ${spec.orderType.toLowerCase().replace('_', ' ')} orders.` };
+      }
+
+      const market = await this.marketData.getLatestClose(symbol).catch(() => undefined);
+      if (market === undefined) {
+        return { ok: false, reason: `No market-data price for ${symbol} to fill against.` };
+      }
+
+      const slipped = market * (1 + (side === 'BUY' ? 1 : -1) * this.config.slippageBps / 10000);
+      const { limitPrice } = spec;
+      if (limitPrice !== undefined && (side === 'BUY' ? market > limitPrice : market < limitPrice)) {
+        return { ok: false, reason: `Limit ${formatUsd(limitPrice)} is not reachable at the market price of ${formatUsd(market)}.` };
+      }
+
+      // A limit caps the slipped price, as a venue would never fill through it
+      const price = cents(limitPrice === undefined ? slipped : side === 'BUY' ? Math.min(slipped, limitPrice) : Math.max(slipped, limitPrice));
+      const commission = cents(Math.max(this.config.minCommission, qty * this.config.commissionPerShare));
+      const ledger = await this.load(userId);
+      const held = ledger.positions[symbol];
+
+      if (side === 'BUY') {
+        const cost = qty * price + commission;
+        if (cost > ledger.cash) {
+          return { ok: false, reason: `Not enough paper cash: ${formatUsd(cost)} needed, ${formatUsd(ledger.cash)} available.` };
+        }
+        const total = (held?.qty ?? 0) + qty;
+        ledger.positions[symbol] = { qty: total, avgCost: ((held?.qty ?? 0) * (held?.avgCost ?? 0) + qty * price) / total };
+        ledger.cash = cents(ledger.cash - cost);
+      } else {
+        // No shorting on paper
+        if (!held || held.qty < qty) {
+          return { ok: false, reason: `The paper account holds ${held?.qty ?? 0} ${symbol}, fewer than ${qty}.` };
+        }
+        ledger.realizedPnl = cents(ledger.realizedPnl + (price - held.avgCost) * qty - commission);
+        ledger.cash = cents(ledger.cash + qty * price - commission);
+        if (held.qty === qty) {
+          delete ledger.positions[symbol];
+        } else {
+          ledger.positions[symbol] = { ...held, qty: held.qty - qty };
+        }
+      }
+
+      await this.save(userId, ledger);
+      logger.info({ userId, symbol, side, qty, price, commission, cash: ledger.cash }, 'Paper order filled');
+      return { ok: true, price, commission, cash: ledger.cash };
+    });
+  }
+
+  // Positions are marked at the latest close, or at cost when market-data has none
+  async getSnapshot(userId: string): Promise<PortfolioSnapshot> {
+    const ledger = await this.load(userId);
+    const positions = await Promise.all(Object.entries(ledger.positions).map(async ([symbol, held]): Promise<Position> => {
+      const mark = await this.marketData.getLatestClose(symbol).catch(() => undefined);
+      const marketPrice = mark ?? held.avgCost;
+      return {
+        symbol,
+        qty: held.qty,
+        avgCost: held.avgCost,
+        marketPrice,
+        marketValue: held.qty * marketPrice,
+        unrealizedPnl: (marketPrice - held.avgCost) * held.qty
+      };
+    }));
+
+    return {
+      userId,
+      positions,
+      cash: ledger.cash,
+      totalValue: ledger.cash + positions.reduce((total, position) => total + (position.marketValue ?? 0), 0),
+      asOf: new Date().toISOString()
+    };
+  }
+
+  private async load(userId: string): Promise<LedgerState> {
+    const stored = await this.storage.get<LedgerState>(ledgerKey(userId));
+    if (stored) {
+      return stored;
+    }
+    const now = new Date().toISOString();
+    return { cash: this.config.startingCash, positions: {}, realizedPnl: 0, createdAt: now, updatedAt: now };
+  }
+
+  private async save(userId: string, ledger: LedgerState): Promise<void> {
+    await this.storage.set(ledgerKey(userId), { ...ledger, updatedAt: new Date().toISOString() });
+  }
+
+  private serialize<T>(userId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(userId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(userId, next);
+    next.catch(() => undefined).finally(() => {
+      if (this.queues.get(userId) === next) this.queues.delete(userId);
+    });
+    return next;
+  }
+}
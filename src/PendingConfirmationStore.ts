@@ -0,0 +1,111 @@
+import { randomUUID } from 'crypto';
+import { ParsedCommand, CommandPlan } from './types.js';
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+
+// 'command' actions replay a parsed command through the router;
+// 'trade' actions replay the exact proposal the swarm analysis produced;
+// 'plan' actions run every step of a compound command under one confirmation.
+export type PendingActionKind = 'command' | 'trade' | 'plan';
+
+export interface PendingAction {
+  token: string;
+  kind: PendingActionKind;
+  sessionId: string;
+  userId: string;
+  parsedCommand?: ParsedCommand;
+  plan?: CommandPlan;
+  proposal?: Record<string, any>;
+  recommendation?: Record<string, any>;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type ConfirmationReply = 'confirm' | 'reject';
+
+export type ResolveResult =
+  | { status: 'ok'; action: PendingAction }
+  | { status: 'none' }
+  | { status: 'expired'; action: PendingAction }
+  | { status: 'mismatch'; action: PendingAction };
+
+const CONFIRM_PATTERN = /^(yes|y|yep|yeah|confirm|confirmed|do it|go ahead)[.!]*$/i;
+const REJECT_PATTERN = /^(no|n|nope|cancel|abort|never ?mind)[.!]*$/i;
+
+// Expired actions stay stored a while so a late "yes" is told it expired rather than
+// that nothing was pending
+const EXPIRED_RETENTION_MS = 10 * 60 * 1000;
+
+// Keyed by user as well as session: sessions default to 'default', and one user's
+// reply must never see, let alone consume, another user's pending action
+function pendingKey(userId: string, sessionId: string): string {
+  return `confirmations.${userId}.${sessionId}`;
+}
+
+export function parseConfirmationReply(text: string): ConfirmationReply | null {
+  const trimmed = text.trim();
+  if (CONFIRM_PATTERN.test(trimmed)) return 'confirm';
+  if (REJECT_PATTERN.test(trimmed)) return 'reject';
+  return null;
+}
+
+export class PendingConfirmationStore {
+  private storage: Storage;
+  private ttlMs: number;
+
+  constructor(storage: Storage = getStorage(), ttlMs: number = Number(process.env.CONFIRMATION_TTL_MS || 120000)) {
+    this.storage = storage;
+    this.ttlMs = ttlMs;
+  }
+
+  // Only one action can await confirmation per user and session; a new one replaces the old.
+  async create(
+    sessionId: string,
+    action: Omit<PendingAction, 'token' | 'sessionId' | 'createdAt' | 'expiresAt'>
+  ): Promise<PendingAction> {
+    const now = Date.now();
+    const pendingAction: PendingAction = {
+      ...action,
+      token: randomUUID(),
+      sessionId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttlMs).toISOString()
+    };
+
+    await this.storage.set(pendingKey(action.userId, sessionId), pendingAction, this.ttlMs + EXPIRED_RETENTION_MS);
+    return pendingAction;
+  }
+
+  async get(userId: string, sessionId: string): Promise<PendingAction | undefined> {
+    return await this.storage.get<PendingAction>(pendingKey(userId, sessionId));
+  }
+
+  // Removes the user's pending action for the session whatever the outcome, so a
+  // stale or mismatched confirmation can never be retried into success. The owner
+  // is checked first: an action that is not the caller's is refused, not consumed.
+  async resolve(sessionId: string, userId: string, token?: string): Promise<ResolveResult> {
+    const key = pendingKey(userId, sessionId);
+    const pending = await this.storage.get<PendingAction>(key);
+    if (!pending) {
+      return { status: 'none' };
+    }
+    if (pending.userId !== userId) {
+      return { status: 'mismatch', action: pending };
+    }
+
+    const action = await this.storage.take<PendingAction>(key);
+    if (!action) {
+      return { status: 'none' };
+    }
+
+    if (Date.parse(action.expiresAt) < Date.now()) {
+      return { status: 'expired', action };
+    }
+
+    if (action.userId !== userId || (token !== undefined && token !== action.token)) {
+      return { status: 'mismatch', action };
+    }
+
+    return { status: 'ok', action };
+  }
+}
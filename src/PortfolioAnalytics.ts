@@ -0,0 +1,260 @@
+import { Position, PortfolioSnapshot, TradingMode } from './types.js';
+import { MarketDataService } from './MarketDataService.js';
+import { PortfolioService } from './PortfolioService.js';
+import { parseTimeframe } from './timeframe.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:analytics' });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TRADING_DAYS_PER_YEAR = 252;
+
+export function simpleReturns(values: number[]): number[] {
+  return values.slice(1).map((value, index) => value / values[index] - 1);
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+// Sample standard deviation; undefined with fewer than two observations
+export function standardDeviation(values: number[]): number | undefined {
+  if (values.length < 2) return undefined;
+  const average = mean(values);
+  return Math.sqrt(values.reduce((total, value) => total + (value - average) ** 2, 0) / (values.length - 1));
+}
+
+export function annualizedVolatility(returns: number[]): number | undefined {
+  const deviation = standardDeviation(returns);
+  return deviation === undefined ? undefined : deviation * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+export function sharpeRatio(returns: number[], riskFreeRate: number): number | undefined {
+  const deviation = standardDeviation(returns);
+  if (!deviation) return undefined;
+  return ((mean(returns) - riskFreeRate / TRADING_DAYS_PER_YEAR) / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+// Largest peak-to-trough fall as a negative fraction, 0 when values never fell
+export function maxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    worst = Math.min(worst, value / peak - 1);
+  }
+  return worst;
+}
+
+// Uses the overlapping most recent returns of both series
+export function beta(returns: number[], benchmarkReturns: number[]): number | undefined {
+  const length = Math.min(returns.length, benchmarkReturns.length);
+  if (length < 2) return undefined;
+
+  const asset = returns.slice(-length);
+  const market = benchmarkReturns.slice(-length);
+  const assetMean = mean(asset);
+  const marketMean = mean(market);
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < length; i++) {
+    covariance += (asset[i] - assetMean) * (market[i] - marketMean);
+    variance += (market[i] - marketMean) ** 2;
+  }
+  return variance === 0 ? undefined : covariance / variance;
+}
+
+// Trading sessions in a calendar timeframe: '1d' → 1, '1w' → 5, '1m' → 21
+export function tradingDays(timeframe: string): number {
+  const days = (parseTimeframe(timeframe) || DAY_MS) / DAY_MS;
+  return Math.max(1, Math.round(days * 5 / 7));
+}
+
+export interface PositionContribution {
+  symbol: string;
+  sector?: string;
+  qty: number;
+  startPrice: number;
+  endPrice: number;
+  pnl: number;
+  returnPct: number;
+  // Share of the starting value this position added or lost, in percentage points
+  contributionPct: number;
+}
+
+export interface SectorExposure {
+  sector: string;
+  marketValue: number;
+  weight: number;
+}
+
+export interface AnalysisOptions {
+  timeframe?: string;
+  symbol?: string;
+  sector?: string;
+  // Which account's holdings are analyzed
+  tradingMode?: TradingMode;
+}
+
+export interface AnalysisReport {
+  scope: 'portfolio' | 'symbol';
+  symbol?: string;
+  sector?: string;
+  timeframe: string;
+  benchmark: string;
+  // Daily returns the metrics were computed from
+  observations: number;
+  startValue: number;
+  endValue: number;
+  pnl: number;
+  totalReturn: number;
+  volatility?: number;
+  sharpe?: number;
+  maxDrawdown: number;
+  beta?: number;
+  contributions: PositionContribution[];
+  sectorExposure: SectorExposure[];
+  // Holdings left out because market-data had no history for them
+  missingSymbols: string[];
+  asOf: string;
+}
+
+// Metrics treat today's holdings as held for the whole window; trades made during
+// the window are not replayed.
+export class PortfolioAnalytics {
+  private marketData: MarketDataService;
+  private portfolio: PortfolioService;
+  private benchmark: string;
+  private riskFreeRate: number;
+
+  constructor(marketData: MarketDataService, portfolio: PortfolioService) {
+    this.marketData = marketData;
+    this.portfolio = portfolio;
+    this.benchmark = process.env.ANALYTICS_BENCHMARK || 'SPY';
+    this.riskFreeRate = Number(process.env.ANALYTICS_RISK_FREE_RATE || 0.04);
+  }
+
+  async analyze(userId: string, options: AnalysisOptions = {}): Promise<AnalysisReport> {
+    const timeframe = options.timeframe || '1m';
+    const sessions = tradingDays(timeframe);
+    // Calendar days covering the sessions plus a week for weekends and holidays
+    const lookbackMs = (Math.ceil((sessions + 1) * 7 / 5) + 7) * DAY_MS;
+
+    // A single symbol can be analyzed without holdings; the portfolio needs them
+    const snapshot: PortfolioSnapshot | null = options.symbol
+      ? await this.portfolio.getSnapshot(userId, options.tradingMode).catch(error => {
+          logger.warn({ userId, error: error instanceof Error ? error.message : error }, 'Analyzing symbol without portfolio');
+          return null;
+        })
+      : await this.portfolio.getSnapshot(userId, options.tradingMode);
+
+    const holdings = (snapshot?.positions || []).filter(position =>
+      (!options.symbol || position.symbol === options.symbol) && (!options.sector || position.sector === options.sector)
+    );
+
+    if (!options.symbol && holdings.length === 0) {
+      throw new Error(options.sector ? `You have no ${options.sector} positions to analyze.` : 'You have no positions to analyze.');
+    }
+
+    const symbols = options.symbol ? [options.symbol] : holdings.map(position => position.symbol);
+    const history = await this.fetchCloses([...new Set([...symbols, this.benchmark])], lookbackMs, sessions + 1);
+
+    const missingSymbols = symbols.filter(symbol => !history.has(symbol));
+    if (missingSymbols.length === symbols.length) {
+      throw new Error(`No price history for ${missingSymbols.join(', ')} from market-data.`);
+    }
+
+    const priced = symbols.filter(symbol => history.has(symbol));
+    const length = Math.min(...priced.map(symbol => history.get(symbol)!.length));
+    const window = (symbol: string) => history.get(symbol)!.slice(-length);
+
+    // Without a holding, a symbol is analyzed per share
+    const heldQty = (symbol: string) => holdings.find(position => position.symbol === symbol)?.qty ?? (options.symbol ? 1 : 0);
+    const cash = options.symbol || options.sector ? 0 : snapshot!.cash;
+
+    const values = Array.from({ length }, (_, index) =>
+      cash + priced.reduce((total, symbol) => total + heldQty(symbol) * window(symbol)[index], 0)
+    );
+    const returns = simpleReturns(values);
+    const benchmarkCloses = history.get(this.benchmark);
+
+    const startValue = values[0];
+    const endValue = values[values.length - 1];
+
+    const contributions = holdings
+      .filter(position => history.has(position.symbol))
+      .map(position => this.contribution(position, window(position.symbol), startValue))
+      .sort((a, b) => a.pnl - b.pnl);
+
+    return {
+      scope: options.symbol ? 'symbol' : 'portfolio',
+      symbol: options.symbol,
+      sector: options.sector,
+      timeframe,
+      benchmark: this.benchmark,
+      observations: returns.length,
+      startValue,
+      endValue,
+      pnl: endValue - startValue,
+      totalReturn: endValue / startValue - 1,
+      volatility: annualizedVolatility(returns),
+      sharpe: sharpeRatio(returns, this.riskFreeRate),
+      maxDrawdown: maxDrawdown(values),
+      beta: benchmarkCloses ? beta(returns, simpleReturns(benchmarkCloses)) : undefined,
+      contributions,
+      sectorExposure: this.sectorExposure(holdings, history),
+      missingSymbols,
+      asOf: new Date().toISOString()
+    };
+  }
+
+  private contribution(position: Position, closes: number[], portfolioStartValue: number): PositionContribution {
+    const startPrice = closes[0];
+    const endPrice = closes[closes.length - 1];
+    const pnl = position.qty * (endPrice - startPrice);
+
+    return {
+      symbol: position.symbol,
+      sector: position.sector,
+      qty: position.qty,
+      startPrice,
+      endPrice,
+      pnl,
+      returnPct: (endPrice / startPrice - 1) * 100,
+      contributionPct: (pnl / portfolioStartValue) * 100
+    };
+  }
+
+  private sectorExposure(holdings: Position[], history: Map<string, number[]>): SectorExposure[] {
+    const bySector = new Map<string, number>();
+    for (const position of holdings) {
+      const lastClose = history.get(position.symbol)?.slice(-1)[0];
+      const marketValue = position.marketValue ?? position.qty * (position.marketPrice ?? lastClose ?? 0);
+      const sector = position.sector || 'Unclassified';
+      bySector.set(sector, (bySector.get(sector) || 0) + marketValue);
+    }
+
+    const total = [...bySector.values()].reduce((sum, value) => sum + value, 0);
+    return [...bySector.entries()]
+      .map(([sector, marketValue]) => ({ sector, marketValue, weight: total ? marketValue / total : 0 }))
+      .sort((a, b) => b.marketValue - a.marketValue);
+  }
+
+  // The last `count` closes per symbol; symbols with fewer than two are left out
+  private async fetchCloses(symbols: string[], lookbackMs: number, count: number): Promise<Map<string, number[]>> {
+    const results = await Promise.allSettled(symbols.map(symbol => this.marketData.getDailyBars(symbol, lookbackMs)));
+    const closes = new Map<string, number[]>();
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.warn({ symbol: symbols[index], error: result.reason instanceof Error ? result.reason.message : result.reason }, 'Failed to fetch history');
+        return;
+      }
+      const series = result.value.map(bar => bar.close).slice(-count);
+      if (series.length >= 2) closes.set(symbols[index], series);
+    });
+
+    return closes;
+  }
+}
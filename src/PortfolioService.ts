@@ -0,0 +1,67 @@
+import { MCPClient } from './MCPClient.js';
+import { PortfolioSnapshot, Position, TradingMode } from './types.js';
+import { PaperLedger } from './PaperLedger.js';
+import { MarketDataService } from './MarketDataService.js';
+import { normalizeSector } from './sectors.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:portfolio' });
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+// The portfolio service has used both `qty` and `quantity`, and `price` for the mark
+function normalizePosition(raw: any): Position {
+  const qty = toNumber(raw.qty ?? raw.quantity) ?? 0;
+  const marketPrice = toNumber(raw.marketPrice ?? raw.lastPrice ?? raw.price);
+
+  return {
+    symbol: String(raw.symbol).toUpperCase(),
+    qty,
+    avgCost: toNumber(raw.avgCost ?? raw.averageCost),
+    marketPrice,
+    marketValue: toNumber(raw.marketValue) ?? (marketPrice !== undefined ? qty * marketPrice : undefined),
+    sector: raw.sector ? normalizeSector(raw.sector) : undefined,
+    unrealizedPnl: toNumber(raw.unrealizedPnl ?? raw.unrealizedPnL),
+    dailyPnl: toNumber(raw.dailyPnl ?? raw.dailyPnL)
+  };
+}
+
+// Reads positions and cash from the portfolio service, or from the paper ledger in
+// paper mode. Nothing is cached: sizing a trade from a stale snapshot could sell
+// shares the user no longer holds.
+export class PortfolioService {
+  private mcp: MCPClient;
+  private paper: PaperLedger;
+
+  constructor(mcp: MCPClient, paper: PaperLedger = new PaperLedger(new MarketDataService(mcp))) {
+    this.mcp = mcp;
+    this.paper = paper;
+  }
+
+  async getSnapshot(userId: string, mode: TradingMode = 'live'): Promise<PortfolioSnapshot> {
+    if (mode === 'paper') {
+      return await this.paper.getSnapshot(userId);
+    }
+
+    const result = await this.mcp.call('portfolio', 'portfolio.get_positions', { userId });
+
+    const positions = (result.positions || []).map(normalizePosition).filter((position: Position) => position.qty !== 0);
+    const cash = toNumber(result.cash) ?? 0;
+    const invested = positions.reduce((total: number, position: Position) => total + (position.marketValue ?? 0), 0);
+
+    const snapshot: PortfolioSnapshot = {
+      userId,
+      positions,
+      cash,
+      totalValue: toNumber(result.totalValue) ?? cash + invested,
+      dailyPnl: toNumber(result.dailyPnl ?? result.dailyPnL),
+      asOf: result.asOf || new Date().toISOString()
+    };
+
+    logger.debug({ userId, positions: positions.length, totalValue: snapshot.totalValue }, 'Portfolio loaded');
+    return snapshot;
+  }
+}
@@ -0,0 +1,130 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:rate-limit' });
+
+// Buckets idle long enough to have refilled are forgotten once the map grows past this
+const MAX_TRACKED_BUCKETS = 10000;
+
+export type RateLimitScope = 'user' | 'ip' | 'trade';
+
+export interface BucketLimit {
+  // Burst size: how many requests fit back to back
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export type RateLimitConfig = Record<RateLimitScope, BucketLimit | null>;
+
+export class RateLimitError extends Error {
+  readonly scope: RateLimitScope;
+  readonly retryAfterSeconds: number;
+
+  constructor(scope: RateLimitScope, retryAfterMs: number) {
+    const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    super(scope === 'trade'
+      ? `Too many trade commands. Try again in ${retryAfterSeconds}s.`
+      : `Too many requests. Try again in ${retryAfterSeconds}s.`);
+    this.name = 'RateLimitError';
+    this.scope = scope;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+function perMinute(value: string | undefined, fallback: number): BucketLimit | null {
+  const count = Number(value ?? fallback);
+  return count > 0 ? { capacity: count, refillPerSecond: count / 60 } : null;
+}
+
+// Limits are requests per minute, which is also the burst size; 0 turns a limit off.
+// Trade-capable intents draw from their own, tighter bucket on top of the others.
+export function loadRateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  return {
+    user: perMinute(env.RATE_LIMIT_USER_PER_MINUTE, 30),
+    ip: perMinute(env.RATE_LIMIT_IP_PER_MINUTE, 60),
+    trade: perMinute(env.RATE_LIMIT_TRADE_PER_MINUTE, 5)
+  };
+}
+
+// Behind a proxy the socket address is the proxy's, so the forwarded client address
+// is used instead; only trust it where a proxy in front always sets it.
+export function clientIp(req: IncomingMessage, trustProxy: boolean = process.env.TRUST_PROXY === 'true'): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && forwarded) {
+    return String(forwarded).split(',')[0].trim();
+  }
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+export function sendRateLimited(res: ServerResponse, error: RateLimitError): void {
+  res.writeHead(429, { 'content-type': 'application/json', 'retry-after': String(error.retryAfterSeconds) });
+  res.end(JSON.stringify({
+    error: 'rate_limited',
+    scope: error.scope,
+    message: error.message,
+    retryAfterSeconds: error.retryAfterSeconds
+  }));
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private buckets: Map<string, Bucket> = new Map();
+
+  constructor(config: RateLimitConfig = loadRateLimitConfig()) {
+    this.config = config;
+  }
+
+  // Charges one request to the user and to the caller's address, or to neither
+  checkRequest(userId: string, ip?: string): void {
+    this.take(ip ? [['user', userId], ['ip', ip]] : [['user', userId]]);
+  }
+
+  checkTrade(userId: string): void {
+    this.take([['trade', userId]]);
+  }
+
+  // Throws RateLimitError with the wait until a token is available. Every bucket is
+  // checked before any is charged, so a refused request costs nothing.
+  private take(charges: Array<[RateLimitScope, string]>): void {
+    const now = Date.now();
+    const charged: Bucket[] = [];
+
+    for (const [scope, id] of charges) {
+      const limit = this.config[scope];
+      if (!limit) continue;
+
+      const key = `${scope}:${id}`;
+      const bucket = this.buckets.get(key) || { tokens: limit.capacity, updatedAt: now };
+      bucket.tokens = Math.min(limit.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond);
+      bucket.updatedAt = now;
+      this.buckets.set(key, bucket);
+
+      if (bucket.tokens < 1) {
+        logger.warn({ scope, id }, 'Rate limit exceeded');
+        throw new RateLimitError(scope, ((1 - bucket.tokens) / limit.refillPerSecond) * 1000);
+      }
+      charged.push(bucket);
+    }
+
+    for (const bucket of charged) {
+      bucket.tokens -= 1;
+    }
+    this.prune(now);
+  }
+
+  private prune(now: number): void {
+    if (this.buckets.size <= MAX_TRACKED_BUCKETS) return;
+
+    for (const [key, bucket] of this.buckets) {
+      const limit = this.config[key.slice(0, key.indexOf(':')) as RateLimitScope];
+      if (!limit || bucket.tokens + ((now - bucket.updatedAt) / 1000) * limit.refillPerSecond >= limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:sessions' });
+
+// The parser sees this much of the session; the user's own history keeps more
+const SESSION_HISTORY_LIMIT = 10;
+const USER_HISTORY_LIMIT = 50;
+
+export interface Session {
+  sessionId: string;
+  userId: string;
+  startedAt: string;
+  lastSeenAt: string;
+}
+
+export interface HistoryEntry {
+  command: string;
+  // The plain-rendered reply, which reads best as parser context
+  response: string;
+  success: boolean;
+  sessionId: string;
+  timestamp: string;
+}
+
+// Keys include the user so a session id guessed or reused by someone else never
+// reaches another user's history
+function sessionKey(userId: string, sessionId: string): string {
+  return `sessions.${userId}.${sessionId}`;
+}
+
+function sessionHistoryKey(userId: string, sessionId: string): string {
+  return `history.sessions.${userId}.${sessionId}`;
+}
+
+function userHistoryKey(userId: string): string {
+  return `history.users.${userId}`;
+}
+
+// A session lasts SESSION_TTL_MS past its last command; its history goes with it,
+// while the user's history outlives sessions for "show my recent commands".
+// History is best effort: a storage failure is logged and the command carries on.
+export class SessionStore {
+  private storage: Storage;
+  private ttlMs: number;
+
+  constructor(storage: Storage = getStorage(), ttlMs: number = Number(process.env.SESSION_TTL_MS || 30 * 60 * 1000)) {
+    this.storage = storage;
+    this.ttlMs = ttlMs;
+  }
+
+  // Starts the session or extends it by another TTL
+  async touch(userId: string, sessionId: string): Promise<Session | undefined> {
+    try {
+      const now = new Date().toISOString();
+      const existing = await this.storage.get<Session>(sessionKey(userId, sessionId));
+      const session: Session = existing
+        ? { ...existing, lastSeenAt: now }
+        : { sessionId, userId, startedAt: now, lastSeenAt: now };
+      await this.storage.set(sessionKey(userId, sessionId), session, this.ttlMs);
+      return session;
+    } catch (error) {
+      logger.warn({ userId, sessionId, error: error instanceof Error ? error.message : error }, 'Failed to update session');
+      return undefined;
+    }
+  }
+
+  async record(userId: string, entry: HistoryEntry): Promise<void> {
+    try {
+      await Promise.all([
+        this.storage.append(sessionHistoryKey(userId, entry.sessionId), entry, SESSION_HISTORY_LIMIT, this.ttlMs),
+        this.storage.append(userHistoryKey(userId), entry, USER_HISTORY_LIMIT)
+      ]);
+    } catch (error) {
+      logger.warn({ userId, sessionId: entry.sessionId, error: error instanceof Error ? error.message : error }, 'Failed to record history');
+    }
+  }
+
+  async sessionHistory(userId: string, sessionId: string, limit: number): Promise<HistoryEntry[]> {
+    return this.read(sessionHistoryKey(userId, sessionId), limit);
+  }
+
+  // Across every session, oldest first
+  async userHistory(userId: string, limit: number): Promise<HistoryEntry[]> {
+    return this.read(userHistoryKey(userId), Math.min(limit, USER_HISTORY_LIMIT));
+  }
+
+  private async read(key: string, limit: number): Promise<HistoryEntry[]> {
+    try {
+      return await this.storage.range<HistoryEntry>(key, limit);
+    } catch (error) {
+      logger.warn({ key, error: error instanceof Error ? error.message : error }, 'Failed to read history');
+      return [];
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { MCPClient } from './MCPClient.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:halt' });
+
+export type HaltScope = 'global' | 'user';
+
+export interface HaltRecord {
+  scope: HaltScope;
+  userId?: string;
+  haltedBy: string;
+  since: string;
+  reason?: string;
+}
+
+export interface HaltState {
+  global: HaltRecord | null;
+  user: HaltRecord | null;
+}
+
+function haltKey(scope: HaltScope, userId?: string): string {
+  return scope === 'global' ? 'trading.halt.global' : `trading.halt.users.${userId}`;
+}
+
+// Halt flags are persisted in the config service, which every instance shares, and
+// read from it on every check so a halt issued elsewhere is seen at once. Only a halt
+// is remembered locally: when the config service cannot be read, the last halt seen
+// still blocks, and with none seen trading is treated as halted until it answers.
+export class TradingHaltService {
+  private mcp: MCPClient;
+  private lastSeen: Map<string, HaltRecord> = new Map();
+
+  constructor(mcp: MCPClient) {
+    this.mcp = mcp;
+  }
+
+  // Throws when the halt could not be persisted, so the caller never reports a halt
+  // that other instances cannot see
+  async halt(scope: HaltScope, userId: string, reason?: string): Promise<HaltRecord> {
+    const record: HaltRecord = {
+      scope,
+      userId: scope === 'user' ? userId : undefined,
+      haltedBy: userId,
+      since: new Date().toISOString(),
+      reason
+    };
+
+    await this.write(haltKey(scope, userId), record);
+    logger.warn({ scope, userId }, 'Trading halted');
+
+    return record;
+  }
+
+  // Throws when the lifted halt could not be persisted
+  async resume(scope: HaltScope, userId: string): Promise<HaltRecord | null> {
+    const key = haltKey(scope, userId);
+    const previous = await this.read(key);
+
+    await this.write(key, null);
+    logger.warn({ scope, userId }, 'Trading resumed');
+
+    return previous;
+  }
+
+  async getState(userId: string): Promise<HaltState> {
+    const [global, user] = await Promise.all([
+      this.read(haltKey('global')),
+      this.read(haltKey('user', userId))
+    ]);
+    return { global, user };
+  }
+
+  // The halt that blocks this user, global taking precedence
+  async getActiveHalt(userId: string): Promise<HaltRecord | null> {
+    const state = await this.getState(userId);
+    return state.global || state.user;
+  }
+
+  private async read(key: string): Promise<HaltRecord | null> {
+    try {
+      const result = await this.mcp.call('config', 'config.get', { key });
+      const record: HaltRecord | null = result?.value || null;
+      if (record) {
+        this.lastSeen.set(key, record);
+      } else {
+        this.lastSeen.delete(key);
+      }
+      return record;
+    } catch (error) {
+      logger.error({ key, error: error instanceof Error ? error.message : error }, 'Failed to load halt state; treating trading as halted');
+      return this.lastSeen.get(key) ?? {
+        scope: key === haltKey('global') ? 'global' : 'user',
+        haltedBy: 'system',
+        since: new Date().toISOString(),
+        reason: 'Halt state could not be loaded from the config service'
+      };
+    }
+  }
+
+  private async write(key: string, record: HaltRecord | null): Promise<void> {
+    try {
+      await this.mcp.call('config', 'config.set', { key, value: record });
+    } catch (error) {
+      logger.error({ key, error: error instanceof Error ? error.message : error }, 'Failed to persist halt state');
+      throw new Error(`Could not ${record ? 'save' : 'lift'} the trading halt: the config service is unavailable`);
+    }
+
+    if (record) {
+      this.lastSeen.set(key, record);
+    } else {
+      this.lastSeen.delete(key);
+    }
+  }
+}
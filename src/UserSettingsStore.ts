@@ -0,0 +1,132 @@
+import { MCPClient } from './MCPClient.js';
+import { UserSettings, UserSettingKey, SettingUpdate } from './types.js';
+import { formatUsd } from './quantity.js';
+import { Storage } from './storage/Storage.js';
+import { getStorage } from './storage/createStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:settings' });
+
+export const SETTING_LABELS: Record<UserSettingKey, string> = {
+  maxPositionValue: 'Max position size',
+  maxGrossExposure: 'Max gross exposure',
+  confirmationThreshold: 'Confirm trades over',
+  personaMode: 'Persona mode',
+  paperTrading: 'Paper trading'
+};
+
+export function describeSettingValue(key: UserSettingKey, value: number | boolean): string {
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (key === 'confirmationThreshold' && value === 0) return 'every trade';
+  return formatUsd(value);
+}
+
+export type SettingUpdateResult =
+  | { ok: true; previous: UserSettings; settings: UserSettings }
+  | { ok: false; error: string };
+
+function settingsKey(userId: string): string {
+  return `users.${userId}.settings`;
+}
+
+// Settings are persisted in the config service, the one copy every instance reads.
+// Storage only caches a read for SETTINGS_CACHE_TTL_MS, so a limit changed through
+// another instance applies here within that window. Only keys in the UserSettings
+// schema are accepted; unset keys take its defaults.
+export class UserSettingsStore {
+  private mcp: MCPClient;
+  private storage: Storage;
+  private ttlMs: number;
+
+  constructor(mcp: MCPClient, storage: Storage = getStorage(), ttlMs: number = Number(process.env.SETTINGS_CACHE_TTL_MS || 30000)) {
+    this.mcp = mcp;
+    this.storage = storage;
+    this.ttlMs = ttlMs;
+  }
+
+  async get(userId: string): Promise<UserSettings> {
+    const cached = await this.readStored(userId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const settings = await this.load(userId);
+      await this.writeStored(userId, settings);
+      return settings;
+    } catch (error) {
+      // Not cached: the next read retries the config service
+      logger.warn({ userId, error: error instanceof Error ? error.message : error }, 'Failed to load settings, using defaults');
+      return UserSettings.parse({});
+    }
+  }
+
+  // Starts from the config service's copy, not the cache, so a change made elsewhere
+  // is never overwritten with stale values. Nothing is cached unless it was saved.
+  async update(userId: string, update: SettingUpdate): Promise<SettingUpdateResult> {
+    let previous: UserSettings;
+    try {
+      previous = await this.load(userId);
+    } catch (error) {
+      logger.error({ userId, error: error instanceof Error ? error.message : error }, 'Failed to load settings for update');
+      return { ok: false, error: 'Your current settings could not be loaded. Please try again.' };
+    }
+
+    const candidate = UserSettings.safeParse({ ...previous, [update.key]: update.value });
+
+    if (!candidate.success) {
+      const issue = candidate.error.issues[0];
+      return { ok: false, error: `${SETTING_LABELS[update.key]} ${issue.message.toLowerCase()}.` };
+    }
+
+    const settings = candidate.data;
+    if (settings.maxPositionValue > settings.maxGrossExposure) {
+      return {
+        ok: false,
+        error: `Max position size (${formatUsd(settings.maxPositionValue)}) cannot exceed max gross exposure (${formatUsd(settings.maxGrossExposure)}).`
+      };
+    }
+
+    try {
+      await this.mcp.call('config', 'config.set', { key: settingsKey(userId), value: settings });
+    } catch (error) {
+      logger.error({ userId, error: error instanceof Error ? error.message : error }, 'Failed to persist settings');
+      return { ok: false, error: 'The new settings could not be saved. Please try again.' };
+    }
+    await this.writeStored(userId, settings);
+
+    logger.info({ userId, key: update.key, value: update.value }, 'Setting updated');
+    return { ok: true, previous, settings };
+  }
+
+  // Throws when the config service cannot be reached; invalid stored settings read as
+  // the defaults
+  private async load(userId: string): Promise<UserSettings> {
+    const result = await this.mcp.call('config', 'config.get', { key: settingsKey(userId) });
+    const stored = UserSettings.safeParse(result?.value || {});
+    if (!stored.success) {
+      logger.error({ userId, issues: stored.error.issues }, 'Stored settings are invalid, using defaults');
+      return UserSettings.parse({});
+    }
+    return stored.data;
+  }
+
+  // Storage trouble falls back to the config service rather than failing the command
+  private async readStored(userId: string): Promise<UserSettings | undefined> {
+    try {
+      const stored = UserSettings.safeParse(await this.storage.get(settingsKey(userId)));
+      return stored.success ? stored.data : undefined;
+    } catch (error) {
+      logger.warn({ userId, error: error instanceof Error ? error.message : error }, 'Failed to read stored settings');
+      return undefined;
+    }
+  }
+
+  private async writeStored(userId: string, settings: UserSettings): Promise<void> {
+    try {
+      await this.storage.set(settingsKey(userId), settings, this.ttlMs);
+    } catch (error) {
+      logger.warn({ userId, error: error instanceof Error ? error.message : error }, 'Failed to store settings');
+    }
+  }
+}
@@ -0,0 +1,536 @@
+import { createHash, randomUUID } from 'crypto';
+import { appendFileSync, closeSync, existsSync, fstatSync, mkdirSync, openSync, readFileSync, readSync, unlinkSync, writeFileSync, createReadStream } from 'fs';
+import { appendFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { createInterface } from 'readline';
+import { AuditQuery } from '../types.js';
+import { ProgressEvent } from '../progress.js';
+import { Storage } from '../storage/Storage.js';
+import { getStorage } from '../storage/createStorage.js';
+import { RedisStorage } from '../storage/RedisStorage.js';
+import { FileStorage } from '../storage/FileStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:audit' });
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// Records read from a sink at a time, so neither query nor verify holds a whole chain
+const PAGE_SIZE = 500;
+
+// Records one verify call checks before handing back a cursor
+const DEFAULT_VERIFY_LIMIT = 10000;
+
+const CHAINS_KEY = 'audit.chains';
+
+function chainKey(chainId: string): string {
+  return `audit.chain.${chainId}`;
+}
+
+export type AuditEventType = NonNullable<AuditQuery['type']>;
+
+export interface AuditRecord {
+  // The writer's chain in shared storage; seq and prevHash run within it
+  chainId?: string;
+  seq: number;
+  timestamp: string;
+  correlationId: string;
+  userId: string;
+  sessionId?: string;
+  type: AuditEventType;
+  // Known once the command is parsed; stamped on every later record of the command
+  intents: string[];
+  symbols: string[];
+  data: unknown;
+  // Hash of the previous record, so editing or removing any record breaks every hash after it
+  prevHash: string;
+  hash: string;
+}
+
+// Fixed field order, so a record read back hashes the same as when written. The chain
+// id is hashed only where there is one, so file logs written before it still verify.
+function hashRecord(record: Omit<AuditRecord, 'hash'>): string {
+  const fields: unknown[] = [
+    record.seq, record.timestamp, record.correlationId, record.userId, record.sessionId ?? null,
+    record.type, record.intents, record.symbols, record.data, record.prevHash
+  ];
+  if (record.chainId !== undefined) fields.push(record.chainId);
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  records: number;
+  chains: number;
+  // The first record whose hash or link does not match, and its chain
+  chainId?: string;
+  brokenAt?: number;
+  reason?: string;
+  // Set when the page ended before the last chain did; pass it back to carry on
+  nextCursor?: string;
+}
+
+export interface AuditPage {
+  // Oldest first
+  records: AuditRecord[];
+  // Set when older matches remain; pass it back to read the page before this one
+  nextCursor?: string;
+}
+
+export interface VerifyOptions {
+  cursor?: string;
+  // Records checked before the page ends
+  limit?: number;
+}
+
+export class AuditCursorError extends Error {
+  constructor() {
+    super('Invalid audit cursor');
+    this.name = 'AuditCursorError';
+  }
+}
+
+// Cursors are opaque to callers: base64url JSON of where the previous page stopped
+function encodeCursor(position: unknown): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor<T>(cursor: string, valid: (value: any) => boolean): T {
+  let position: unknown;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuditCursorError();
+  }
+  if (!valid(position)) throw new AuditCursorError();
+  return position as T;
+}
+
+// Records are ordered by time, then by the chain's place in the list, then seq
+type QueryPosition = [time: number, chain: number, seq: number];
+
+function isQueryPosition(value: any): boolean {
+  return Array.isArray(value) && value.length === 3 && value.every(Number.isFinite);
+}
+
+function comparePositions(a: QueryPosition, b: QueryPosition): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+// Verification resumes at a chain's next seq, holding the hash it must link to
+interface VerifyPosition {
+  chain: string;
+  seq: number;
+  prevHash: string;
+}
+
+function isVerifyPosition(value: any): boolean {
+  return typeof value?.chain === 'string' && Number.isInteger(value.seq) && value.seq >= 1 && typeof value.prevHash === 'string';
+}
+
+// Every sink only ever appends, so writing a record costs the same however long the
+// log has grown
+interface AuditSink {
+  readonly name: string;
+  // Stamped on every record this process writes
+  readonly chainId?: string;
+  last(): AuditRecord | undefined;
+  append(record: AuditRecord): Promise<void>;
+  // In the order the chains were started
+  chainIds(): Promise<string[]>;
+  // One chain from the given seq on, oldest first, read a page at a time
+  read(chainId: string, fromSeq: number): AsyncIterable<AuditRecord>;
+}
+
+// A Redis list per chain, written with RPUSH, so every replica and Vercel function
+// appends to and reads the same log. Each process writes a chain of its own, listed
+// under audit.chains: a single chain would need an atomic read-and-append, and two
+// writers sharing one would fork it. Seq n sits at index n - 1 of its list.
+class RedisAuditSink implements AuditSink {
+  readonly name = 'redis';
+  readonly chainId: string = randomUUID();
+  private redis: RedisStorage;
+  private tail?: AuditRecord;
+  private listed = false;
+
+  constructor(redis: RedisStorage) {
+    this.redis = redis;
+  }
+
+  last(): AuditRecord | undefined {
+    return this.tail;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    if (!this.listed) {
+      await this.redis.push(CHAINS_KEY, this.chainId);
+      this.listed = true;
+    }
+    await this.redis.push(chainKey(this.chainId), record);
+    this.tail = record;
+  }
+
+  async chainIds(): Promise<string[]> {
+    return [...new Set(await this.redis.slice<string>(CHAINS_KEY, 0, -1))];
+  }
+
+  async *read(chainId: string, fromSeq: number): AsyncIterable<AuditRecord> {
+    for (let start = fromSeq - 1; ; start += PAGE_SIZE) {
+      const page = await this.redis.slice<AuditRecord>(chainKey(chainId), start, start + PAGE_SIZE - 1);
+      yield* page;
+      if (page.length < PAGE_SIZE) return;
+    }
+  }
+}
+
+// Chains held beside the memory storage they were built on, so agents sharing one
+// MemoryStorage share one log as they would on redis. Covers this process only.
+const memoryChains = new WeakMap<Storage, Map<string, AuditRecord[]>>();
+
+class MemoryAuditSink implements AuditSink {
+  readonly name = 'memory';
+  readonly chainId: string = randomUUID();
+  private chains: Map<string, AuditRecord[]>;
+
+  constructor(storage: Storage) {
+    let chains = memoryChains.get(storage);
+    if (!chains) {
+      chains = new Map();
+      memoryChains.set(storage, chains);
+    }
+    this.chains = chains;
+  }
+
+  last(): AuditRecord | undefined {
+    return this.chains.get(this.chainId)?.at(-1);
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    const chain = this.chains.get(this.chainId);
+    if (chain) {
+      chain.push(record);
+    } else {
+      this.chains.set(this.chainId, [record]);
+    }
+  }
+
+  async chainIds(): Promise<string[]> {
+    return [...this.chains.keys()];
+  }
+
+  async *read(chainId: string, fromSeq: number): AsyncIterable<AuditRecord> {
+    yield* (this.chains.get(chainId) || []).slice(fromSeq - 1);
+  }
+}
+
+// Reads backwards from the end until a whole line is in hand, so resuming the chain
+// does not load the whole log
+function readLastLine(file: string): string | undefined {
+  const fd = openSync(file, 'r');
+  try {
+    let position = fstatSync(fd).size;
+    let tail = Buffer.alloc(0);
+    while (position > 0) {
+      const length = Math.min(64 * 1024, position);
+      position -= length;
+      const chunk = Buffer.alloc(length);
+      readSync(fd, chunk, 0, length, position);
+      tail = Buffer.concat([chunk, tail]);
+
+      const text = tail.toString('utf8').replace(/\n+$/, '');
+      const start = text.lastIndexOf('\n');
+      if (start !== -1) return text.slice(start + 1);
+    }
+    const text = tail.toString('utf8').trim();
+    return text || undefined;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// A lock file beside the log holds the writer's pid until it exits; a second process
+// refuses to start rather than fork the chain. A lock left by a dead process is taken over.
+function lockForWriting(file: string): void {
+  const lock = `${file}.lock`;
+  try {
+    writeFileSync(lock, String(process.pid), { flag: 'wx' });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    const holder = Number(readFileSync(lock, 'utf8'));
+    if (holder && holder !== process.pid && isRunning(holder)) {
+      throw new Error(`Audit log ${file} is already being written by process ${holder}; use shared storage for more than one process`);
+    }
+    writeFileSync(lock, String(process.pid));
+  }
+  process.once('exit', () => {
+    try {
+      unlinkSync(lock);
+    } catch {
+      // Already gone
+    }
+  });
+}
+
+// The file's records carry no chain id; this names its one chain in cursors
+const FILE_CHAIN = 'file';
+
+// One JSON record per line, only ever appended to, by one process: the file is locked
+// for writing, as two processes appending to it would fork the chain.
+class FileAuditSink implements AuditSink {
+  readonly name = 'file';
+  private file: string;
+  private tail?: AuditRecord;
+
+  constructor(file: string) {
+    this.file = file;
+    mkdirSync(dirname(file), { recursive: true });
+    lockForWriting(file);
+    if (existsSync(file)) {
+      const line = readLastLine(file);
+      this.tail = line ? JSON.parse(line) : undefined;
+    } else {
+      appendFileSync(file, '');
+    }
+  }
+
+  last(): AuditRecord | undefined {
+    return this.tail;
+  }
+
+  async append(record: AuditRecord): Promise<void> {
+    await appendFile(this.file, `${JSON.stringify(record)}\n`, 'utf8');
+    this.tail = record;
+  }
+
+  async chainIds(): Promise<string[]> {
+    return [FILE_CHAIN];
+  }
+
+  // Skips to the first wanted line without parsing the ones before it
+  async *read(_chainId: string, fromSeq: number): AsyncIterable<AuditRecord> {
+    const input = createReadStream(this.file, 'utf8');
+    try {
+      let seq = 0;
+      for await (const line of createInterface({ input, crlfDelay: Infinity })) {
+        if (!line.trim() || ++seq < fromSeq) continue;
+        yield JSON.parse(line);
+      }
+    } finally {
+      input.destroy();
+    }
+  }
+}
+
+// The records of one command. Recording never blocks the command; flush() waits
+// until everything recorded so far is written.
+export class AuditTrail {
+  readonly correlationId: string;
+  private log: AuditLog;
+  private userId: string;
+  private sessionId?: string;
+  private intents: string[] = [];
+  private symbols: string[] = [];
+  private written: Promise<void> = Promise.resolve();
+
+  constructor(log: AuditLog, correlationId: string, userId: string, sessionId?: string) {
+    this.log = log;
+    this.correlationId = correlationId;
+    this.userId = userId;
+    this.sessionId = sessionId;
+  }
+
+  setSubject(intents: string[], symbols: string[]): void {
+    this.intents = [...new Set(intents)];
+    this.symbols = [...new Set(symbols)];
+  }
+
+  record(type: AuditEventType, data: unknown): void {
+    this.written = this.log.append({
+      timestamp: new Date().toISOString(),
+      correlationId: this.correlationId,
+      userId: this.userId,
+      sessionId: this.sessionId,
+      type,
+      intents: this.intents,
+      symbols: this.symbols,
+      data
+    });
+  }
+
+  // Each step the swarm reports becomes a record; the parse also fixes the subject
+  recordProgress(event: ProgressEvent): void {
+    switch (event.type) {
+      case 'parse': {
+        const commands = event.plan.steps.map(step => step.command);
+        this.setSubject(commands.map(command => command.intent), commands.flatMap(command => command.entities.symbol ? [command.entities.symbol] : []));
+        this.record('command_parsed', { plan: event.plan });
+        return;
+      }
+      case 'agent':
+        this.record('agent_report', { agent: event.agent, available: event.available, report: event.report });
+        return;
+      case 'consensus':
+        this.record('consensus', { symbol: event.symbol, consensus: event.consensus });
+        return;
+      case 'risk':
+        this.record('risk_check', { symbol: event.symbol, approved: event.approved, breaches: event.breaches, exposure: event.exposure });
+        return;
+      case 'confirmation':
+        this.record('confirmation_requested', { kind: event.kind, confirmationToken: event.confirmationToken, expiresAt: event.expiresAt });
+        return;
+    }
+  }
+
+  async flush(): Promise<void> {
+    await this.written;
+  }
+}
+
+export interface AuditLogOptions {
+  // A local file with a single writer; without one the log follows the storage backend
+  file?: string;
+  storage?: Storage;
+}
+
+// The file storage backend rewrites its whole store on every change, so its log goes
+// to a JSONL file beside it instead
+function createSink(file: string | undefined, storage: Storage): AuditSink {
+  if (file) return new FileAuditSink(file);
+  if (storage instanceof RedisStorage) return new RedisAuditSink(storage);
+  if (storage instanceof FileStorage) return new FileAuditSink(join(dirname(storage.file), 'audit.jsonl'));
+  return new MemoryAuditSink(storage);
+}
+
+// With STORAGE_BACKEND=redis the log is shared by every replica or Vercel function;
+// with memory storage it covers this process only. AUDIT_LOG_FILE keeps it in a file
+// instead, for a single process.
+export class AuditLog {
+  private sink: AuditSink;
+  private head: { seq: number; hash: string };
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor({ file = process.env.AUDIT_LOG_FILE, storage }: AuditLogOptions = {}) {
+    this.sink = createSink(file, storage ?? getStorage());
+    const last = this.sink.last();
+    this.head = last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: GENESIS_HASH };
+
+    if (this.sink.name === 'memory') {
+      logger.warn('The audit log is in memory and covers this process only');
+    }
+  }
+
+  begin(correlationId: string, userId: string, sessionId?: string): AuditTrail {
+    return new AuditTrail(this, correlationId, userId, sessionId);
+  }
+
+  // Appends are chained one after another: each record's hash depends on the one
+  // before. A failed write is logged and leaves the head unchanged.
+  append(event: Omit<AuditRecord, 'seq' | 'prevHash' | 'hash'>): Promise<void> {
+    this.queue = this.queue.then(async () => {
+      const unhashed = { ...event, chainId: this.sink.chainId, seq: this.head.seq + 1, prevHash: this.head.hash };
+      const record: AuditRecord = { ...unhashed, hash: hashRecord(unhashed) };
+      try {
+        await this.sink.append(record);
+        this.head = { seq: record.seq, hash: record.hash };
+      } catch (error) {
+        logger.error({ correlationId: event.correlationId, type: event.type, error: error instanceof Error ? error.message : error }, 'Failed to write audit record');
+      }
+    });
+    return this.queue;
+  }
+
+  // The newest `limit` matches, in time order. Each chain is read a page at a time and
+  // only the newest matches are held, so memory stays bounded by the limit. The
+  // returned cursor pages back through older matches.
+  async query(filter: AuditQuery): Promise<AuditPage> {
+    const from = filter.from?.getTime();
+    const to = filter.to?.getTime();
+    const before = filter.cursor ? decodeCursor<QueryPosition>(filter.cursor, isQueryPosition) : undefined;
+    let matches: Array<{ position: QueryPosition; record: AuditRecord }> = [];
+    let more = false;
+
+    const keepNewest = () => {
+      matches.sort((a, b) => comparePositions(a.position, b.position));
+      if (matches.length > filter.limit) {
+        matches = matches.slice(-filter.limit);
+        more = true;
+      }
+    };
+
+    const chainIds = await this.sink.chainIds();
+    for (const [index, chainId] of chainIds.entries()) {
+      for await (const record of this.sink.read(chainId, 1)) {
+        const time = Date.parse(record.timestamp);
+        if (filter.userId && record.userId !== filter.userId) continue;
+        if (filter.correlationId && record.correlationId !== filter.correlationId) continue;
+        if (filter.type && record.type !== filter.type) continue;
+        if (filter.intent && !record.intents.includes(filter.intent)) continue;
+        if (filter.symbol && !record.symbols.includes(filter.symbol.toUpperCase())) continue;
+        if (from !== undefined && time < from) continue;
+        if (to !== undefined && time > to) continue;
+
+        // Chains are ordered by when they started, which holds still as the list grows
+        const position: QueryPosition = [time, index, record.seq];
+        if (before && comparePositions(position, before) >= 0) continue;
+        matches.push({ position, record });
+        if (matches.length >= 2 * filter.limit) keepNewest();
+      }
+    }
+    keepNewest();
+
+    const records = matches.map(match => match.record);
+    return more ? { records, nextCursor: encodeCursor(matches[0].position) } : { records };
+  }
+
+  // Walks every chain from its first record, or from the cursor, checking at most
+  // `limit` records; the first break found is reported
+  async verify({ cursor, limit = DEFAULT_VERIFY_LIMIT }: VerifyOptions = {}): Promise<ChainVerification> {
+    const chainIds = await this.sink.chainIds();
+    const start = cursor ? decodeCursor<VerifyPosition>(cursor, isVerifyPosition) : undefined;
+    const first = start ? chainIds.indexOf(start.chain) : 0;
+    if (first === -1) {
+      throw new AuditCursorError();
+    }
+
+    let records = 0;
+    const chains = new Set<string>();
+    for (let index = first; index < chainIds.length; index++) {
+      const chain = chainIds[index];
+      let previous = start && index === first ? { seq: start.seq - 1, hash: start.prevHash } : { seq: 0, hash: GENESIS_HASH };
+
+      for await (const record of this.sink.read(chain, previous.seq + 1)) {
+        if (records === limit) {
+          return { valid: true, records, chains: chains.size, nextCursor: encodeCursor({ chain, seq: previous.seq + 1, prevHash: previous.hash }) };
+        }
+        records++;
+        chains.add(chain);
+
+        const { hash, ...unhashed } = record;
+        if (record.seq !== previous.seq + 1 || record.prevHash !== previous.hash) {
+          return { valid: false, records, chains: chains.size, chainId: record.chainId, brokenAt: record.seq, reason: 'Record does not follow the one before it' };
+        }
+        if (hashRecord(unhashed) !== hash) {
+          return { valid: false, records, chains: chains.size, chainId: record.chainId, brokenAt: record.seq, reason: 'Record contents do not match its hash' };
+        }
+        previous = { seq: record.seq, hash };
+      }
+    }
+    return { valid: true, records, chains: chains.size };
+  }
+}
+
+let shared: AuditLog | undefined;
+
+// One log per process, so every agent appends to the same chain
+export function getAuditLog(): AuditLog {
+  return shared ??= new AuditLog();
+}
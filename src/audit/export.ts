@@ -0,0 +1,24 @@
+import { AuditRecord } from './AuditLog.js';
+
+const CSV_COLUMNS = ['chainId', 'seq', 'timestamp', 'correlationId', 'userId', 'sessionId', 'type', 'intents', 'symbols', 'data', 'prevHash', 'hash'] as const;
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One record per line, exactly as hashed, so an exported file can be re-verified
+export function toJsonl(records: AuditRecord[]): string {
+  return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
+
+// Lists are joined with `;` and the event data stays JSON in its own column
+export function toCsv(records: AuditRecord[]): string {
+  const rows = records.map(record => CSV_COLUMNS.map(column => {
+    const value = record[column];
+    if (Array.isArray(value)) return csvField(value.join(';'));
+    if (column === 'data') return csvField(JSON.stringify(value ?? null));
+    return csvField(value === undefined ? '' : String(value));
+  }).join(','));
+
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
@@ -0,0 +1,83 @@
+import type { IncomingHttpHeaders, ServerResponse } from 'http';
+import { AuditQuery, AuditVerifyQuery } from '../types.js';
+import { Identity, hasRole } from '../auth.js';
+import { AuditLog, AuditCursorError } from './AuditLog.js';
+import { toCsv, toJsonl } from './export.js';
+
+// Callers may tie a request to their own trace id; anything that does not look like
+// an id is ignored and the agent makes one up
+export function correlationIdFrom(headers: IncomingHttpHeaders): string | undefined {
+  const value = headers['x-correlation-id'];
+  const id = Array.isArray(value) ? value[0] : value;
+  return id && /^[\w.:-]{1,128}$/.test(id) ? id : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendInvalidQuery(res: ServerResponse, issues: Array<{ path: PropertyKey[]; message: string }>): void {
+  sendJson(res, 400, {
+    error: 'invalid_query',
+    issues: issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+  });
+}
+
+// GET /audit filters by userId, symbol, intent, correlationId, type, from and to and
+// answers as json, jsonl or csv; GET /audit/verify walks the hash chains. Both answer
+// a page at a time: the next page's cursor comes back as nextCursor, and for jsonl and
+// csv in the x-next-cursor header. Admins see everyone and may verify; other users
+// only ever get their own records.
+export async function handleAuditRequest(audit: AuditLog, url: URL, identity: Identity | undefined, res: ServerResponse): Promise<void> {
+  const isAdmin = !identity || hasRole(identity, 'admin');
+  const params = Object.fromEntries(url.searchParams);
+
+  try {
+    if (url.pathname.endsWith('/verify')) {
+      if (!isAdmin) {
+        sendJson(res, 403, { error: 'forbidden', message: 'Verifying the audit log needs the admin role' });
+        return;
+      }
+      const verify = AuditVerifyQuery.safeParse(params);
+      if (!verify.success) {
+        sendInvalidQuery(res, verify.error.issues);
+        return;
+      }
+      sendJson(res, 200, await audit.verify(verify.data));
+      return;
+    }
+
+    const parsed = AuditQuery.safeParse(params);
+    if (!parsed.success) {
+      sendInvalidQuery(res, parsed.error.issues);
+      return;
+    }
+
+    const query = isAdmin ? parsed.data : { ...parsed.data, userId: identity!.userId };
+    const { records, nextCursor } = await audit.query(query);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const cursorHeader: Record<string, string> = nextCursor ? { 'x-next-cursor': nextCursor } : {};
+
+    switch (query.format) {
+      case 'jsonl':
+        res.writeHead(200, { 'content-type': 'application/x-ndjson', 'content-disposition': `attachment; filename="audit-${stamp}.jsonl"`, ...cursorHeader });
+        res.end(toJsonl(records));
+        return;
+
+      case 'csv':
+        res.writeHead(200, { 'content-type': 'text/csv; charset=utf-8', 'content-disposition': `attachment; filename="audit-${stamp}.csv"`, ...cursorHeader });
+        res.end(toCsv(records));
+        return;
+
+      default:
+        sendJson(res, 200, { count: records.length, records, nextCursor });
+    }
+  } catch (error) {
+    if (error instanceof AuditCursorError) {
+      sendInvalidQuery(res, [{ path: ['cursor'], message: error.message }]);
+      return;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,206 @@
+import { createHash, createHmac, createPublicKey, timingSafeEqual, verify, KeyObject } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { readFileSync } from 'fs';
+import { ApiKeyRecord, ParsedCommand, UserRole } from './types.js';
+import { z } from 'zod';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:auth' });
+
+// Tokens a few seconds past exp still pass, for clocks that drift between issuer and us
+const CLOCK_SKEW_SECONDS = 30;
+
+const ROLE_RANK: Record<UserRole, number> = { viewer: 0, trader: 1, admin: 2 };
+
+export interface Identity {
+  userId: string;
+  roles: UserRole[];
+  method: 'api_key' | 'jwt';
+}
+
+export interface AuthConfig {
+  // Off only for local development; the servers then trust the body's userId as before
+  disabled: boolean;
+  apiKeys: ApiKeyRecord[];
+  jwtSecret?: string;
+  jwtPublicKey?: KeyObject;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+}
+
+export class AuthError extends Error {
+  readonly status: 401 | 403;
+  readonly code: string;
+
+  constructor(status: 401 | 403, code: string, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// AUTH_API_KEYS is a JSON array of ApiKeyRecord. JWTs are HS256 with AUTH_JWT_SECRET
+// or RS256 against the PEM in AUTH_JWT_PUBLIC_KEY_FILE; keys are local, never fetched.
+// Like the consensus policy, a bad key list stops startup.
+export function loadAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  const config: AuthConfig = {
+    disabled: env.AUTH_DISABLED === 'true',
+    apiKeys: env.AUTH_API_KEYS ? z.array(ApiKeyRecord).parse(JSON.parse(env.AUTH_API_KEYS)) : [],
+    jwtSecret: env.AUTH_JWT_SECRET || undefined,
+    jwtPublicKey: env.AUTH_JWT_PUBLIC_KEY_FILE ? createPublicKey(readFileSync(env.AUTH_JWT_PUBLIC_KEY_FILE, 'utf8')) : undefined,
+    jwtIssuer: env.AUTH_JWT_ISSUER || undefined,
+    jwtAudience: env.AUTH_JWT_AUDIENCE || undefined
+  };
+
+  if (config.disabled) {
+    logger.warn('Authentication is disabled; requests act as whichever userId they name');
+  } else if (config.apiKeys.length === 0 && !config.jwtSecret && !config.jwtPublicKey) {
+    logger.warn('No API keys or JWT keys configured; every request will be rejected');
+  }
+
+  return config;
+}
+
+let defaultConfig: AuthConfig | undefined;
+
+function getDefaultConfig(): AuthConfig {
+  return defaultConfig ??= loadAuthConfig();
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthError(401, 'invalid_token', 'Token is not a well-formed JWT');
+  }
+}
+
+function verifyApiKey(key: string, config: AuthConfig): Identity {
+  const digest = sha256(key);
+  const record = config.apiKeys.find(candidate => timingSafeEqual(digest, Buffer.from(candidate.keySha256, 'hex')));
+  if (!record) {
+    throw new AuthError(401, 'invalid_api_key', 'API key is not recognised');
+  }
+
+  return { userId: record.userId, roles: record.roles, method: 'api_key' };
+}
+
+// The algorithm comes from our configuration, never from the token header, so a
+// token cannot downgrade itself to `none` or to HS256 signed with the public key
+function verifyJwt(token: string, config: AuthConfig): Identity {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new AuthError(401, 'invalid_token', 'Token is not a well-formed JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+  const header = decodeSegment(encodedHeader);
+  const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+
+  let valid = false;
+  if (header?.alg === 'HS256' && config.jwtSecret) {
+    const expected = createHmac('sha256', config.jwtSecret).update(signingInput).digest();
+    valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+  } else if (header?.alg === 'RS256' && config.jwtPublicKey) {
+    valid = verify('RSA-SHA256', signingInput, config.jwtPublicKey, signature);
+  } else {
+    throw new AuthError(401, 'invalid_token', `Token algorithm ${header?.alg ?? 'none'} is not accepted`);
+  }
+
+  if (!valid) {
+    throw new AuthError(401, 'invalid_token', 'Token signature does not verify');
+  }
+
+  const claims = decodeSegment(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims?.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new AuthError(401, 'token_expired', 'Token has expired or has no exp claim');
+  }
+  if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new AuthError(401, 'invalid_token', 'Token is not valid yet');
+  }
+  if (config.jwtIssuer && claims.iss !== config.jwtIssuer) {
+    throw new AuthError(401, 'invalid_token', 'Token issuer is not trusted');
+  }
+  if (config.jwtAudience && !([] as unknown[]).concat(claims.aud).includes(config.jwtAudience)) {
+    throw new AuthError(401, 'invalid_token', 'Token audience does not match');
+  }
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    throw new AuthError(401, 'invalid_token', 'Token has no subject');
+  }
+
+  // Unknown role names are dropped; a token without roles is read-only
+  const roles = ([] as unknown[]).concat(claims.roles ?? []).filter((role): role is UserRole => UserRole.safeParse(role).success);
+  return { userId: claims.sub, roles: roles.length > 0 ? roles : ['viewer'], method: 'jwt' };
+}
+
+// Reads `x-api-key` or `Authorization: Bearer <jwt>`. Returns undefined only when
+// authentication is disabled; otherwise throws AuthError for the server to answer 401.
+export function authenticate(headers: IncomingHttpHeaders, config: AuthConfig = getDefaultConfig()): Identity | undefined {
+  if (config.disabled) {
+    return undefined;
+  }
+
+  const apiKey = headers['x-api-key'];
+  if (typeof apiKey === 'string' && apiKey.length > 0) {
+    return verifyApiKey(apiKey, config);
+  }
+
+  const match = /^Bearer\s+(\S+)$/i.exec(headers.authorization || '');
+  if (match) {
+    return verifyJwt(match[1], config);
+  }
+
+  throw new AuthError(401, 'unauthorized', 'Send an API key in x-api-key or a bearer token in Authorization');
+}
+
+export function hasRole(identity: Identity, role: UserRole): boolean {
+  return identity.roles.some(held => ROLE_RANK[held] >= ROLE_RANK[role]);
+}
+
+// Viewers may look but not act; traders act on their own account; only admins
+// halt or resume trading for everyone
+export function requiredRole(command: ParsedCommand): UserRole {
+  const { intent, entities } = command;
+
+  switch (intent) {
+    case 'STATUS':
+    case 'QUERY':
+    case 'ANALYZE':
+    case 'HISTORY':
+      return 'viewer';
+
+    case 'ORDERS':
+      return entities.action === 'cancel' ? 'trader' : 'viewer';
+
+    case 'ALERT':
+      return entities.action === 'list' ? 'viewer' : 'trader';
+
+    case 'CONFIG':
+      return entities.setting ? 'trader' : 'viewer';
+
+    case 'STOP':
+    case 'RESUME':
+      return entities.scope === 'global' ? 'admin' : 'trader';
+
+    default:
+      return 'trader';
+  }
+}
+
+// A reason to refuse the command, or undefined when the identity may run it
+export function authorizeCommand(identity: Identity, command: ParsedCommand): string | undefined {
+  const role = requiredRole(command);
+  if (hasRole(identity, role)) {
+    return undefined;
+  }
+
+  const scope = command.entities.scope === 'global' ? ' for everyone' : '';
+  return `${command.intent}${scope} needs the ${role} role; you have ${identity.roles.join(', ')}.`;
+}
@@ -0,0 +1,154 @@
+import { ConsensusAgent, ConsensusPolicy, ConsensusPolicyOverride } from './types.js';
+import { TechnicalSnapshot } from './indicators.js';
+
+// Equal weights and the historic 60% / risk-6 cut-offs, with risk able to veto
+export const DEFAULT_CONSENSUS_POLICY: ConsensusPolicy = {
+  version: 'default-1',
+  agents: {
+    marketData: { weight: 1, veto: false },
+    sentiment: { weight: 1, veto: false },
+    technical: { weight: 1, veto: false },
+    risk: { weight: 1, veto: true }
+  },
+  intents: {
+    BUY: { threshold: 0.6, minQuorum: 2, weights: {}, riskMaxScore: 6, sentimentBullish: 0.6, sentimentBearish: 0.4, rsiOverbought: 70, rsiOversold: 30 },
+    SELL: { threshold: 0.6, minQuorum: 2, weights: {}, riskMaxScore: 6, sentimentBullish: 0.6, sentimentBearish: 0.4, rsiOverbought: 70, rsiOversold: 30 }
+  }
+};
+
+// What each swarm agent reported for a symbol; an agent whose service failed is absent
+export interface AgentAnalysis {
+  marketData?: { price: number; change: number; volume: number; source: 'market-data' | 'mock' };
+  sentiment?: { score: number; confidence: number; sources: string[] };
+  technical?: TechnicalSnapshot;
+  risk?: { status: string; score: number; factors: string[] };
+  strategy?: { recommendation: 'BUY' | 'SELL' | 'HOLD'; confidence: number; reasoning: string };
+}
+
+export interface AgentVote {
+  agent: ConsensusAgent;
+  inFavour: boolean;
+  weight: number;
+  reason: string;
+}
+
+export interface ConsensusResult {
+  shouldProceed: boolean;
+  decision: string;
+  confidence: number;
+  reason: string;
+  suggestedQuantity: number;
+  suggestedPrice?: number;
+  policyVersion: string;
+  votes: AgentVote[];
+  vetoedBy?: ConsensusAgent;
+  quorum: { present: number; required: number };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepMerge<T>(base: T, override: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return (override === undefined ? base : override) as T;
+  }
+
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge((base as Record<string, any>)[key], value);
+  }
+  return merged as T;
+}
+
+// The override's own version, if any, is appended so the effective policy stays identifiable
+export function mergePolicy(base: ConsensusPolicy, override: ConsensusPolicyOverride, overrideId: string): ConsensusPolicy {
+  const merged = ConsensusPolicy.parse(deepMerge(base, override));
+  return { ...merged, version: `${base.version}+${override.version || overrideId}` };
+}
+
+// One vote per available agent. Agents whose service did not answer are absent and
+// count against the quorum instead of voting.
+function collectVotes(analysis: AgentAnalysis, intent: 'BUY' | 'SELL', policy: ConsensusPolicy): AgentVote[] {
+  const rule = policy.intents[intent];
+  const weightOf = (agent: ConsensusAgent) => rule.weights[agent] ?? policy.agents[agent]?.weight ?? 1;
+  const votes: AgentVote[] = [];
+  const vote = (agent: ConsensusAgent, inFavour: boolean, reason: string) =>
+    votes.push({ agent, inFavour, weight: weightOf(agent), reason });
+
+  const { marketData, sentiment, technical, risk } = analysis;
+
+  if (marketData && marketData.source !== 'mock') {
+    const withIntent = intent === 'BUY' ? marketData.change > 0 : marketData.change < 0;
+    vote('marketData', withIntent, `Price momentum ${marketData.change > 0 ? 'positive' : marketData.change < 0 ? 'negative' : 'flat'}`);
+  }
+
+  if (sentiment) {
+    if (intent === 'BUY' && sentiment.score > rule.sentimentBullish) vote('sentiment', true, 'Sentiment bullish');
+    else if (intent === 'SELL' && sentiment.score < rule.sentimentBearish) vote('sentiment', true, 'Sentiment bearish');
+    else vote('sentiment', false, 'Sentiment not aligned');
+  }
+
+  if (technical) {
+    const { trend, rsi } = technical;
+    const trendAligned = (intent === 'BUY' && trend === 'Bullish') || (intent === 'SELL' && trend === 'Bearish');
+    // Chasing a move that is already stretched is not an aligned signal
+    const stretched = rsi !== undefined && ((intent === 'BUY' && rsi >= rule.rsiOverbought) || (intent === 'SELL' && rsi <= rule.rsiOversold));
+    if (stretched) vote('technical', false, `RSI ${rsi.toFixed(0)} ${intent === 'BUY' ? 'overbought' : 'oversold'}`);
+    else vote('technical', trendAligned, trendAligned ? 'Technical trend aligned' : 'Technical trend not aligned');
+  }
+
+  if (risk) {
+    const acceptable = risk.score <= rule.riskMaxScore;
+    vote('risk', acceptable, acceptable ? 'Risk acceptable' : `Risk ${risk.score}/10 above ${rule.riskMaxScore}`);
+  }
+
+  return votes.filter(entry => entry.weight > 0 || policy.agents[entry.agent]?.veto);
+}
+
+export function evaluateConsensus(analysis: AgentAnalysis, intent: 'BUY' | 'SELL', policy: ConsensusPolicy): ConsensusResult {
+  const rule = policy.intents[intent];
+  const votes = collectVotes(analysis, intent, policy);
+  const quorum = { present: votes.length, required: rule.minQuorum };
+  const reason = votes.map(entry => entry.reason).join(', ');
+
+  const totalWeight = votes.reduce((total, entry) => total + entry.weight, 0);
+  const favourWeight = votes.filter(entry => entry.inFavour).reduce((total, entry) => total + entry.weight, 0);
+  const confidence = totalWeight > 0 ? favourWeight / totalWeight : 0;
+  const inFavour = votes.filter(entry => entry.inFavour).length;
+
+  const base = { confidence, policyVersion: policy.version, votes, quorum, suggestedPrice: analysis.marketData?.price };
+
+  if (votes.length < rule.minQuorum) {
+    return {
+      ...base,
+      shouldProceed: false,
+      decision: `Only ${votes.length} agent${votes.length === 1 ? '' : 's'} reported, ${rule.minQuorum} needed - NO QUORUM`,
+      reason: `Not enough agents available to decide (${votes.length}/${rule.minQuorum})${reason ? `: ${reason}` : ''}`,
+      suggestedQuantity: 1
+    };
+  }
+
+  const veto = votes.find(entry => !entry.inFavour && policy.agents[entry.agent]?.veto);
+  if (veto) {
+    return {
+      ...base,
+      shouldProceed: false,
+      decision: `${veto.agent} VETO - BLOCKED`,
+      reason: `${veto.reason} (veto), ${reason}`,
+      suggestedQuantity: 1,
+      vetoedBy: veto.agent
+    };
+  }
+
+  const shouldProceed = confidence >= rule.threshold;
+  return {
+    ...base,
+    shouldProceed,
+    decision: shouldProceed
+      ? `${inFavour}/${votes.length} agents agree (${(confidence * 100).toFixed(0)}% weighted) - PROCEED`
+      : `Only ${inFavour}/${votes.length} agents agree (${(confidence * 100).toFixed(0)}% weighted, ${(rule.threshold * 100).toFixed(0)}% needed) - CAUTION`,
+    reason,
+    suggestedQuantity: shouldProceed ? Math.max(1, Math.floor(10 * confidence)) : 1
+  };
+}
@@ -0,0 +1,29 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const ALLOWED_HEADERS = 'Content-Type, Authorization, x-api-key, x-agent-role, x-agent-id, x-correlation-id, mcp-protocol-version';
+
+// CORS_ALLOWED_ORIGINS is a comma-separated list of browser origins allowed to call
+// the API, or `*` for any. Unset, no origin is allowed and only same-origin pages and
+// non-browser clients get through.
+export function loadAllowedOrigins(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+const allowedOrigins = loadAllowedOrigins();
+
+// Echoes the request's origin only when it is on the allow-list
+export function applyCors(req: IncomingMessage, res: ServerResponse, methods: string, origins: string[] = allowedOrigins): void {
+  const origin = req.headers.origin;
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', ALLOWED_HEADERS);
+
+  if (origins.includes('*')) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+  } else if (origin && origins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+  }
+}
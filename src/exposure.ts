@@ -0,0 +1,119 @@
+import { Order, PortfolioSnapshot } from './types.js';
+import { formatUsd } from './quantity.js';
+
+export interface RiskLimits {
+  maxGross: number;
+  maxSingle: number;
+}
+
+export interface PendingOrderExposure {
+  orderId: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  remainingQty: number;
+  // Unknown for unfilled market orders, which carry no price until they execute
+  notional?: number;
+}
+
+export interface Exposure {
+  orderNotional: number;
+  currentGross: number;
+  pendingNotional: number;
+  executedTodayNotional: number;
+  resultingGross: number;
+  // Value of the traded symbol's position once this order fills
+  resultingPositionValue: number;
+}
+
+export interface RiskBreach {
+  rule: string;
+  limit?: number;
+  value?: number;
+  message: string;
+}
+
+export function pendingOrderExposure(orders: Order[]): PendingOrderExposure[] {
+  return orders.map(order => {
+    const remainingQty = order.qty - order.filledQty;
+    const price = order.limitPrice ?? order.stopPrice ?? order.avgFillPrice;
+    return {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      remainingQty,
+      notional: price !== undefined ? remainingQty * price : undefined
+    };
+  });
+}
+
+// Gross is the sum of absolute position values; pending orders are reported
+// alongside rather than assumed to fill.
+export function computeExposure(
+  trade: { symbol: string; side: 'BUY' | 'SELL'; qty: number; price: number },
+  portfolio: PortfolioSnapshot | null,
+  pending: PendingOrderExposure[],
+  executedTodayNotional: number
+): Exposure {
+  const positions = portfolio?.positions || [];
+  const currentGross = positions.reduce((total, position) => total + Math.abs(position.marketValue ?? 0), 0);
+  const held = positions.find(position => position.symbol === trade.symbol)?.qty ?? 0;
+
+  const orderNotional = trade.qty * trade.price;
+  const resultingQty = held + (trade.side === 'BUY' ? trade.qty : -trade.qty);
+  const resultingGross = currentGross - Math.abs(held) * trade.price + Math.abs(resultingQty) * trade.price;
+
+  return {
+    orderNotional,
+    currentGross,
+    pendingNotional: pending.reduce((total, order) => total + (order.notional ?? 0), 0),
+    executedTodayNotional,
+    resultingGross,
+    resultingPositionValue: resultingQty * trade.price
+  };
+}
+
+const RULE_ALIASES: Record<string, string> = {
+  maxsingle: 'maxSingle',
+  max_single: 'maxSingle',
+  single: 'maxSingle',
+  order_size: 'maxSingle',
+  maxgross: 'maxGross',
+  max_gross: 'maxGross',
+  gross: 'maxGross',
+  gross_exposure: 'maxGross'
+};
+
+// Risk-engine breaches arrive as bare rule names or as objects; fill in the numbers
+// we know for the limits we sent so every breach reads "value vs limit".
+export function describeBreach(raw: unknown, exposure: Exposure | undefined, limits: RiskLimits): RiskBreach {
+  const source: Record<string, any> = typeof raw === 'object' && raw !== null ? raw : { rule: String(raw) };
+  const name = String(source.rule ?? source.code ?? source.name ?? 'unknown');
+  const rule = RULE_ALIASES[name.toLowerCase()] || name;
+
+  const known = rule === 'maxSingle'
+    ? { limit: limits.maxSingle, value: exposure?.orderNotional, label: 'Order size' }
+    : rule === 'maxGross'
+      ? { limit: limits.maxGross, value: exposure?.resultingGross, label: 'Gross exposure after this trade' }
+      : undefined;
+
+  const limit = typeof source.limit === 'number' ? source.limit : known?.limit;
+  const value = typeof (source.value ?? source.actual) === 'number' ? (source.value ?? source.actual) : known?.value;
+
+  // Only the limits we sent are known to be dollars; other rules may report ratios or counts
+  const format = (amount: number) => known ? formatUsd(amount) : String(amount);
+  const numbers = limit !== undefined && value !== undefined ? `${format(value)} vs limit ${format(limit)}` : undefined;
+  const label = source.message || known?.label || rule.replace(/[_-]+/g, ' ');
+  const message = numbers ? `${label}${source.message ? ` (${numbers})` : `: ${numbers}`}` : label;
+
+  return { rule, limit, value, message };
+}
+
+// Our own reading of the limits we send, enforced alongside the engine's verdict
+export function checkLimits(exposure: Exposure | undefined, limits: RiskLimits): RiskBreach[] {
+  if (!exposure) return [];
+
+  const breaches: unknown[] = [];
+  if (exposure.orderNotional > limits.maxSingle) breaches.push('maxSingle');
+  if (exposure.resultingGross > limits.maxGross && exposure.resultingGross > exposure.currentGross) breaches.push('maxGross');
+  return breaches.map(rule => describeBreach(rule, exposure, limits));
+}
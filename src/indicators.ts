@@ -0,0 +1,231 @@
+import { Bar } from './MarketDataService.js';
+
+// Indicator functions take oldest-first series and return undefined until there is
+// enough history for the requested period, never a made-up value.
+
+export function sma(values: number[], period: number): number | undefined {
+  if (values.length < period) return undefined;
+  return values.slice(-period).reduce((total, value) => total + value, 0) / period;
+}
+
+// Full EMA series seeded with the SMA of the first `period` values; empty when too short
+export function emaSeries(values: number[], period: number): number[] {
+  if (values.length < period) return [];
+
+  const k = 2 / (period + 1);
+  const series = [values.slice(0, period).reduce((total, value) => total + value, 0) / period];
+  for (const value of values.slice(period)) {
+    series.push(value * k + series[series.length - 1] * (1 - k));
+  }
+  return series;
+}
+
+export function ema(values: number[], period: number): number | undefined {
+  const series = emaSeries(values, period);
+  return series[series.length - 1];
+}
+
+// Wilder's RSI
+export function rsi(closes: number[], period: number = 14): number | undefined {
+  if (closes.length <= period) return undefined;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain += Math.max(change, 0);
+    loss += Math.max(-change, 0);
+  }
+  gain /= period;
+  loss /= period;
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (loss === 0) return gain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + gain / loss);
+}
+
+export interface MACD {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export function macd(closes: number[], fast: number = 12, slow: number = 26, signalPeriod: number = 9): MACD | undefined {
+  const fastSeries = emaSeries(closes, fast);
+  const slowSeries = emaSeries(closes, slow);
+  if (slowSeries.length === 0) return undefined;
+
+  // Both series end on the latest close; align the fast one to the slow one's start
+  const macdSeries = slowSeries.map((value, index) => fastSeries[index + (slow - fast)] - value);
+  const signal = ema(macdSeries, signalPeriod);
+  if (signal === undefined) return undefined;
+
+  const latest = macdSeries[macdSeries.length - 1];
+  return { macd: latest, signal, histogram: latest - signal };
+}
+
+export interface Crossover {
+  fast: number;
+  slow: number;
+  state: 'bullish' | 'bearish';
+  // Set when the averages crossed on the latest bar
+  crossed?: 'golden' | 'death';
+}
+
+export function emaCrossover(closes: number[], fastPeriod: number, slowPeriod: number): Crossover | undefined {
+  const fastSeries = emaSeries(closes, fastPeriod);
+  const slowSeries = emaSeries(closes, slowPeriod);
+  if (slowSeries.length < 2) return undefined;
+
+  const offset = slowPeriod - fastPeriod;
+  const [fast, slow] = [fastSeries[fastSeries.length - 1], slowSeries[slowSeries.length - 1]];
+  const [previousFast, previousSlow] = [fastSeries[slowSeries.length - 2 + offset], slowSeries[slowSeries.length - 2]];
+
+  const state = fast >= slow ? 'bullish' : 'bearish';
+  const previousState = previousFast >= previousSlow ? 'bullish' : 'bearish';
+
+  return {
+    fast,
+    slow,
+    state,
+    crossed: state === previousState ? undefined : state === 'bullish' ? 'golden' : 'death'
+  };
+}
+
+export interface BollingerBands {
+  middle: number;
+  upper: number;
+  lower: number;
+  // Where the last close sits in the band: 0 at the lower band, 1 at the upper
+  percentB: number;
+}
+
+export function bollinger(closes: number[], period: number = 20, deviations: number = 2): BollingerBands | undefined {
+  const middle = sma(closes, period);
+  if (middle === undefined) return undefined;
+
+  const window = closes.slice(-period);
+  const deviation = Math.sqrt(window.reduce((total, value) => total + (value - middle) ** 2, 0) / period);
+  const upper = middle + deviations * deviation;
+  const lower = middle - deviations * deviation;
+  const last = closes[closes.length - 1];
+
+  return { middle, upper, lower, percentB: upper === lower ? 0.5 : (last - lower) / (upper - lower) };
+}
+
+// Wilder's average true range
+export function atr(bars: Bar[], period: number = 14): number | undefined {
+  if (bars.length <= period) return undefined;
+
+  const trueRanges = bars.slice(1).map((bar, index) => {
+    const previousClose = bars[index].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+
+  let average = trueRanges.slice(0, period).reduce((total, value) => total + value, 0) / period;
+  for (const range of trueRanges.slice(period)) {
+    average = (average * (period - 1) + range) / period;
+  }
+  return average;
+}
+
+export interface PivotLevels {
+  pivot: number;
+  support: [number, number];
+  resistance: [number, number];
+}
+
+// Classic floor pivots from the last completed bar
+export function pivotLevels(bars: Bar[]): PivotLevels | undefined {
+  const bar = bars[bars.length - 1];
+  if (!bar) return undefined;
+
+  const pivot = (bar.high + bar.low + bar.close) / 3;
+  const range = bar.high - bar.low;
+  return {
+    pivot,
+    support: [2 * pivot - bar.high, pivot - range],
+    resistance: [2 * pivot - bar.low, pivot + range]
+  };
+}
+
+export interface IndicatorConfig {
+  // Calendar days of daily bars to fetch; must cover the slowest period plus warm-up
+  lookbackDays: number;
+  rsiPeriod: number;
+  macd: [number, number, number];
+  crossover: [number, number];
+  bollingerPeriod: number;
+  bollingerDeviations: number;
+  atrPeriod: number;
+}
+
+export function loadIndicatorConfig(env: NodeJS.ProcessEnv = process.env): IndicatorConfig {
+  return {
+    lookbackDays: Number(env.INDICATOR_LOOKBACK_DAYS || 120),
+    rsiPeriod: Number(env.INDICATOR_RSI_PERIOD || 14),
+    macd: [12, 26, 9],
+    crossover: [Number(env.INDICATOR_FAST_EMA || 20), Number(env.INDICATOR_SLOW_EMA || 50)],
+    bollingerPeriod: 20,
+    bollingerDeviations: 2,
+    atrPeriod: 14
+  };
+}
+
+export type Trend = 'Bullish' | 'Bearish' | 'Sideways';
+
+export interface TechnicalSnapshot {
+  price: number;
+  bars: number;
+  trend: Trend;
+  rsi?: number;
+  macd?: MACD;
+  crossover?: Crossover;
+  bollinger?: BollingerBands;
+  atr?: number;
+  pivots?: PivotLevels;
+  support?: number;
+  resistance?: number;
+}
+
+// Trend is a vote of three views: price against the slow average, the EMA crossover
+// and the MACD histogram. Two of three in one direction set it, otherwise Sideways.
+export function computeTechnicals(bars: Bar[], config: IndicatorConfig): TechnicalSnapshot | undefined {
+  if (bars.length < 2) return undefined;
+
+  const closes = bars.map(bar => bar.close);
+  const price = closes[closes.length - 1];
+  const [fastPeriod, slowPeriod] = config.crossover;
+
+  const crossover = emaCrossover(closes, fastPeriod, slowPeriod);
+  const macdValue = macd(closes, ...config.macd);
+  const slowAverage = sma(closes, slowPeriod);
+  const pivots = pivotLevels(bars);
+
+  const votes = [
+    slowAverage === undefined ? 0 : Math.sign(price - slowAverage),
+    crossover === undefined ? 0 : crossover.state === 'bullish' ? 1 : -1,
+    macdValue === undefined ? 0 : Math.sign(macdValue.histogram)
+  ];
+  const bullish = votes.filter(vote => vote > 0).length;
+  const bearish = votes.filter(vote => vote < 0).length;
+
+  return {
+    price,
+    bars: bars.length,
+    trend: bullish >= 2 ? 'Bullish' : bearish >= 2 ? 'Bearish' : 'Sideways',
+    rsi: rsi(closes, config.rsiPeriod),
+    macd: macdValue,
+    crossover,
+    bollinger: bollinger(closes, config.bollingerPeriod, config.bollingerDeviations),
+    atr: atr(bars, config.atrPeriod),
+    pivots,
+    support: pivots?.support[0],
+    resistance: pivots?.resistance[0]
+  };
+}
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+// Inline JSON schema for tool definitions; model APIs reject $ref and $schema
+export function toJSONSchema(schema: z.ZodTypeAny): Record<string, any> {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>;
+  return jsonSchema;
+}
@@ -0,0 +1,51 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMProvider, ToolCallRequest, ToolCallResponse, formatContext } from './LLMProvider.js';
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+  private anthropic: Anthropic;
+  private maxTokens: number;
+
+  constructor(options: { apiKey: string; model?: string; timeoutMs: number; maxTokens: number }) {
+    this.anthropic = new Anthropic({ apiKey: options.apiKey, timeout: options.timeoutMs, maxRetries: 1 });
+    this.model = options.model || 'claude-3-haiku-20240307';
+    this.maxTokens = options.maxTokens;
+  }
+
+  async callTool(request: ToolCallRequest): Promise<ToolCallResponse> {
+    const content: Anthropic.TextBlockParam[] = [];
+    if (request.context) {
+      content.push({ type: 'text', text: formatContext(request.context) });
+    }
+    content.push({ type: 'text', text: request.userText });
+
+    const response = await this.anthropic.messages.create({
+      model: this.model,
+      max_tokens: request.maxTokens || this.maxTokens,
+      system: request.system,
+      tools: [{
+        name: request.tool.name,
+        description: request.tool.description,
+        input_schema: request.tool.inputSchema as Anthropic.Tool.InputSchema
+      }],
+      tool_choice: { type: 'tool', name: request.tool.name },
+      messages: [{ role: 'user', content }]
+    });
+
+    const toolUse = response.content.find(
+      (block): block is Anthropic.ToolUseBlock => block.type === 'tool_use' && block.name === request.tool.name
+    );
+    if (!toolUse) {
+      throw new Error(`Expected a ${request.tool.name} tool call from Claude`);
+    }
+
+    return {
+      input: toolUse.input,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens
+      }
+    };
+  }
+}
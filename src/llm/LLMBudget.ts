@@ -0,0 +1,81 @@
+import { LLMUsage } from './LLMProvider.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:llm-budget' });
+
+export interface LLMBudgetConfig {
+  // Per user per UTC day; undefined leaves that dimension unlimited
+  dailyTokens?: number;
+  dailyCostUsd?: number;
+  inputCostPerMTok: number;
+  outputCostPerMTok: number;
+}
+
+export interface LLMSpend {
+  day: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+function positive(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return value && parsed > 0 ? parsed : undefined;
+}
+
+// Prices default to the list price of the default model, Claude 3 Haiku; set them
+// for whatever model runs
+export function loadLLMBudgetConfig(env: NodeJS.ProcessEnv = process.env): LLMBudgetConfig {
+  return {
+    dailyTokens: positive(env.LLM_DAILY_TOKEN_BUDGET),
+    dailyCostUsd: positive(env.LLM_DAILY_COST_BUDGET_USD),
+    inputCostPerMTok: Number(env.LLM_INPUT_COST_PER_MTOK || 0.25),
+    outputCostPerMTok: Number(env.LLM_OUTPUT_COST_PER_MTOK || 1.25)
+  };
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Tracks each user's model spend from the usage the provider reports. Spend resets at
+// UTC midnight; a user over budget is parsed offline until then rather than refused.
+export class LLMBudget {
+  private config: LLMBudgetConfig;
+  private spend: Map<string, LLMSpend> = new Map();
+
+  constructor(config: LLMBudgetConfig = loadLLMBudgetConfig()) {
+    this.config = config;
+  }
+
+  record(userId: string, usage: LLMUsage): LLMSpend {
+    const spend = this.getSpend(userId);
+    spend.inputTokens += usage.inputTokens;
+    spend.outputTokens += usage.outputTokens;
+    spend.costUsd += (usage.inputTokens * this.config.inputCostPerMTok + usage.outputTokens * this.config.outputCostPerMTok) / 1_000_000;
+    this.spend.set(userId, spend);
+
+    if (this.isExhausted(userId)) {
+      logger.warn({ userId, ...spend }, 'Daily LLM budget exhausted; parsing offline until tomorrow');
+    }
+    return spend;
+  }
+
+  isExhausted(userId: string): boolean {
+    const { dailyTokens, dailyCostUsd } = this.config;
+    const spend = this.getSpend(userId);
+    return (dailyTokens !== undefined && spend.inputTokens + spend.outputTokens >= dailyTokens)
+      || (dailyCostUsd !== undefined && spend.costUsd >= dailyCostUsd);
+  }
+
+  getSpend(userId: string): LLMSpend {
+    const day = today();
+    const spend = this.spend.get(userId);
+    if (spend?.day === day) {
+      return spend;
+    }
+    // Yesterday's entry is replaced rather than kept, so the map holds one day at most
+    this.spend.delete(userId);
+    return { day, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  }
+}
@@ -0,0 +1,73 @@
+import { LLMProvider, ToolCallRequest, ToolCallResponse, formatContext } from './LLMProvider.js';
+
+// Any server speaking the OpenAI chat completions API with function calling:
+// vLLM, Ollama, llama.cpp, LM Studio
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private maxTokens: number;
+
+  constructor(options: { baseUrl?: string; apiKey?: string; model?: string; timeoutMs: number; maxTokens: number }) {
+    this.baseUrl = (options.baseUrl || 'http://localhost:11434/v1').replace(/\/$/, '');
+    this.apiKey = options.apiKey;
+    this.model = options.model || 'llama3.1';
+    this.timeoutMs = options.timeoutMs;
+    this.maxTokens = options.maxTokens;
+  }
+
+  async callTool(request: ToolCallRequest): Promise<ToolCallResponse> {
+    const messages: Array<{ role: string; content: string }> = [{ role: 'system', content: request.system }];
+    if (request.context) {
+      messages.push({ role: 'user', content: formatContext(request.context) });
+    }
+    messages.push({ role: 'user', content: request.userText });
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens || this.maxTokens,
+        temperature: 0,
+        messages,
+        tools: [{
+          type: 'function',
+          function: {
+            name: request.tool.name,
+            description: request.tool.description,
+            parameters: request.tool.inputSchema
+          }
+        }],
+        tool_choice: { type: 'function', function: { name: request.tool.name } }
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`LLM endpoint error: ${response.status} ${errorText}`);
+    }
+
+    const body: any = await response.json();
+    const toolCall = body.choices?.[0]?.message?.tool_calls?.find(
+      (call: any) => call.function?.name === request.tool.name
+    );
+    if (!toolCall) {
+      throw new Error(`Expected a ${request.tool.name} tool call from LLM endpoint`);
+    }
+
+    return {
+      // Arguments arrive as a JSON string; a malformed one surfaces as a parse error
+      input: JSON.parse(toolCall.function.arguments),
+      usage: body.usage
+        ? { inputTokens: body.usage.prompt_tokens || 0, outputTokens: body.usage.completion_tokens || 0 }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import { LLMProvider, ToolCallRequest, ToolCallResponse } from './LLMProvider.js';
+
+// A canned tool input, an error to throw, or a function of the request
+export type ScriptedReply = unknown;
+
+// Replays canned tool calls in order, for tests and demos. Requests are kept so
+// callers can assert on what was sent.
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly model = 'scripted';
+  readonly requests: ToolCallRequest[] = [];
+  private replies: ScriptedReply[];
+
+  constructor(replies: ScriptedReply[] = []) {
+    this.replies = [...replies];
+  }
+
+  enqueue(...replies: ScriptedReply[]): void {
+    this.replies.push(...replies);
+  }
+
+  async callTool(request: ToolCallRequest): Promise<ToolCallResponse> {
+    this.requests.push(request);
+
+    if (this.replies.length === 0) {
+      throw new Error('Scripted provider has no replies left');
+    }
+
+    const reply = this.replies.shift();
+    if (reply instanceof Error) {
+      throw reply;
+    }
+
+    return { input: typeof reply === 'function' ? reply(request) : reply };
+  }
+}
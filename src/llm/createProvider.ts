@@ -0,0 +1,49 @@
+import { readFileSync } from 'fs';
+import { LLMConfig, LLMProvider } from './LLMProvider.js';
+import { AnthropicProvider } from './AnthropicProvider.js';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider.js';
+import { ScriptedProvider } from './ScriptedProvider.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:llm' });
+
+// Returns null when no model should be called, so the caller degrades to the
+// offline grammar parser instead of failing at startup
+export function createProvider(config: LLMConfig): LLMProvider | null {
+  switch (config.provider) {
+    case 'none':
+      return null;
+
+    case 'anthropic':
+      if (!config.apiKey) {
+        logger.warn('ANTHROPIC_API_KEY is not set; intent parsing will run offline');
+        return null;
+      }
+      return new AnthropicProvider({
+        apiKey: config.apiKey,
+        model: config.model,
+        timeoutMs: config.timeoutMs,
+        maxTokens: config.maxTokens
+      });
+
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        model: config.model,
+        timeoutMs: config.timeoutMs,
+        maxTokens: config.maxTokens
+      });
+
+    case 'scripted': {
+      // LLM_SCRIPT_FILE points at a JSON array of canned tool inputs
+      const file = process.env.LLM_SCRIPT_FILE;
+      const replies: unknown[] = file ? JSON.parse(readFileSync(file, 'utf8')) : [];
+      return new ScriptedProvider(replies);
+    }
+
+    default:
+      logger.warn({ provider: config.provider }, 'Unknown LLM provider; intent parsing will run offline');
+      return null;
+  }
+}
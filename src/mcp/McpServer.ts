@@ -0,0 +1,201 @@
+import { ZodError } from 'zod';
+import { CommandAgent, ProcessOptions } from '../CommandAgent.js';
+import { JsonRpcRequest, McpToolCallParams } from '../types.js';
+import { ProgressEvent } from '../progress.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:mcp' });
+
+// Newest first; a client asking for anything else is offered the newest
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: '@swarm/command-agent', version: '0.1.0' };
+
+export const JsonRpcErrorCode = {
+  parseError: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internalError: -32603
+} as const;
+
+type JsonRpcId = string | number | null;
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: { code: number; message: string; data?: unknown } };
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export type McpCallOptions = Omit<ProcessOptions, 'onProgress'>;
+
+// Thrown inside a handler to answer with a JSON-RPC error rather than a result
+export class McpError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+function describeProgress(event: ProgressEvent): string {
+  switch (event.type) {
+    case 'parse':
+      return `Parsed ${event.plan.steps.map(step => step.command.intent).join(', ')}`;
+    case 'agent':
+      return `${event.agent} ${event.available ? 'reported' : 'unavailable'}`;
+    case 'consensus':
+      return `Consensus on ${event.symbol}: ${event.consensus.decision}`;
+    case 'risk':
+      return `Risk check on ${event.symbol} ${event.approved ? 'passed' : 'failed'}`;
+    case 'confirmation':
+      return 'Waiting for confirmation';
+  }
+}
+
+// The agent as a Model Context Protocol server: initialize, ping, tools/list and
+// tools/call over JSON-RPC 2.0, independent of transport. Protocol faults (bad JSON,
+// unknown methods or tools, arguments that fail the schema) are JSON-RPC errors; a
+// tool that runs and fails comes back as a result with isError, as the spec asks.
+export class McpServer {
+  private agent: CommandAgent;
+
+  constructor(agent: CommandAgent) {
+    this.agent = agent;
+  }
+
+  // Raw text off the wire; a batch gets an array of responses back
+  async handleText(text: string, options: McpCallOptions = {}, notify?: (notification: JsonRpcNotification) => void): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return this.error(null, JsonRpcErrorCode.parseError, 'Parse error');
+    }
+    return this.handle(message, options, notify);
+  }
+
+  // Notifications and client responses get nothing back
+  async handle(message: unknown, options: McpCallOptions = {}, notify?: (notification: JsonRpcNotification) => void): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (Array.isArray(message)) {
+      if (message.length === 0) {
+        return this.error(null, JsonRpcErrorCode.invalidRequest, 'Empty batch');
+      }
+      const responses = await Promise.all(message.map(item => this.handleOne(item, options, notify)));
+      const answered = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+      return answered.length > 0 ? answered : undefined;
+    }
+    return this.handleOne(message, options, notify);
+  }
+
+  private async handleOne(message: unknown, options: McpCallOptions, notify?: (notification: JsonRpcNotification) => void): Promise<JsonRpcResponse | undefined> {
+    if (isClientResponse(message)) {
+      return undefined;
+    }
+
+    const parsed = JsonRpcRequest.safeParse(message);
+    if (!parsed.success) {
+      const id = (message as any)?.id;
+      return this.error(typeof id === 'string' || typeof id === 'number' ? id : null, JsonRpcErrorCode.invalidRequest, 'Invalid Request');
+    }
+
+    const request = parsed.data;
+    const isNotification = request.id === undefined;
+    try {
+      const result = await this.dispatch(request, options, notify);
+      return isNotification ? undefined : { jsonrpc: '2.0', id: request.id!, result };
+    } catch (error) {
+      if (isNotification) {
+        return undefined;
+      }
+      if (error instanceof McpError) {
+        return this.error(request.id!, error.code, error.message, error.data);
+      }
+      logger.error({ method: request.method, error: error instanceof Error ? error.message : error }, 'MCP request failed');
+      return this.error(request.id!, JsonRpcErrorCode.internalError, 'Internal error');
+    }
+  }
+
+  private async dispatch(request: JsonRpcRequest, options: McpCallOptions, notify?: (notification: JsonRpcNotification) => void): Promise<unknown> {
+    switch (request.method) {
+      case 'initialize': {
+        const requested = request.params?.protocolVersion;
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions: 'Trading commands for the swarm. Trades and other actions ask for confirmation; answer with the confirmationToken returned.'
+        };
+      }
+
+      case 'notifications/initialized':
+      case 'notifications/cancelled':
+      case 'ping':
+        return {};
+
+      case 'tools/list':
+        return { tools: this.agent.getTools() };
+
+      case 'tools/call':
+        return await this.callTool(request.params, options, notify);
+
+      default:
+        throw new McpError(JsonRpcErrorCode.methodNotFound, `Method not found: ${request.method}`);
+    }
+  }
+
+  private async callTool(params: unknown, options: McpCallOptions, notify?: (notification: JsonRpcNotification) => void): Promise<unknown> {
+    const parsed = McpToolCallParams.safeParse(params);
+    if (!parsed.success) {
+      throw new McpError(JsonRpcErrorCode.invalidParams, 'Invalid params', parsed.error.issues);
+    }
+
+    const { name, arguments: input = {}, _meta } = parsed.data;
+    if (!this.agent.getTools().some(tool => tool.name === name)) {
+      throw new McpError(JsonRpcErrorCode.invalidParams, `Unknown tool: ${name}`);
+    }
+
+    const progressToken = _meta?.progressToken;
+    let progress = 0;
+    const onProgress = progressToken !== undefined && notify
+      ? (event: ProgressEvent) => notify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress: ++progress, message: describeProgress(event) }
+      })
+      : undefined;
+
+    try {
+      const result = await this.agent.handleToolCall(name, input, { ...options, onProgress });
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        structuredContent: result,
+        isError: result?.success === false
+      };
+    } catch (error) {
+      if (error instanceof ZodError) {
+        throw new McpError(JsonRpcErrorCode.invalidParams, `Invalid arguments for ${name}`, error.issues);
+      }
+      // Rate limits and other failures are the tool's result, for the model to read
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      logger.warn({ tool: name, error: message }, 'Tool call failed');
+      return { content: [{ type: 'text', text: message }], isError: true };
+    }
+  }
+
+  private error(id: JsonRpcId, code: number, message: string, data?: unknown): JsonRpcResponse {
+    return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+  }
+}
+
+function isClientResponse(message: unknown): boolean {
+  return typeof message === 'object' && message !== null && !('method' in message) && ('result' in message || 'error' in message);
+}
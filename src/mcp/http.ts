@@ -0,0 +1,80 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { loadAllowedOrigins } from '../cors.js';
+import { JsonRpcErrorCode, JsonRpcNotification, McpCallOptions, McpServer, SUPPORTED_PROTOCOL_VERSIONS } from './McpServer.js';
+
+const allowedOrigins = loadAllowedOrigins();
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function wantsProgress(message: unknown): boolean {
+  return typeof message === 'object' && message !== null && (message as any).params?._meta?.progressToken !== undefined;
+}
+
+// The Streamable HTTP transport, stateless: each POST carries one message or batch and
+// is answered with JSON, or with an SSE stream of progress notifications ending in the
+// response when the client accepts one and sent a progress token. Nothing is pushed
+// outside a request, so GET has no stream to open. `body` is the raw text, or the
+// already-parsed JSON on hosts that parse it.
+export async function handleMcpHttp(
+  server: McpServer,
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: unknown,
+  options: McpCallOptions = {}
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.writeHead(405, { allow: 'POST', 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: 'method_not_allowed' }));
+    return;
+  }
+
+  // A page on another site must not drive a server reachable from the browser
+  const origin = req.headers.origin;
+  if (origin && !allowedOrigins.includes('*') && !allowedOrigins.includes(origin)) {
+    sendJson(res, 403, { jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.invalidRequest, message: 'Origin not allowed' } });
+    return;
+  }
+
+  const version = req.headers['mcp-protocol-version'];
+  if (typeof version === 'string' && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+    sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.invalidRequest, message: `Unsupported protocol version ${version}` } });
+    return;
+  }
+
+  let message: unknown = body;
+  if (typeof body === 'string') {
+    try {
+      message = JSON.parse(body);
+    } catch {
+      sendJson(res, 400, { jsonrpc: '2.0', id: null, error: { code: JsonRpcErrorCode.parseError, message: 'Parse error' } });
+      return;
+    }
+  }
+
+  const streaming = String(req.headers.accept || '').includes('text/event-stream') && !Array.isArray(message) && wantsProgress(message);
+  if (streaming) {
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive', 'x-accel-buffering': 'no' });
+    const send = (payload: unknown) => {
+      if (!res.writableEnded && !res.destroyed) res.write(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+    };
+    try {
+      const response = await server.handle(message, options, (notification: JsonRpcNotification) => send(notification));
+      if (response !== undefined) send(response);
+    } finally {
+      if (!res.writableEnded) res.end();
+    }
+    return;
+  }
+
+  const response = await server.handle(message, options);
+  if (response === undefined) {
+    // Only notifications or responses were sent
+    res.writeHead(202);
+    res.end();
+    return;
+  }
+  sendJson(res, 200, response);
+}
@@ -0,0 +1,43 @@
+// MCP over stdio, for agent hosts that launch the agent as a subprocess: one JSON-RPC
+// message per line on stdin, responses and progress notifications on stdout. The host
+// that starts the process is trusted as its user, as with AUTH_DISABLED.
+import { createInterface } from 'readline';
+import pino from 'pino';
+
+// stdout carries only protocol messages. Every module logs to stdout through pino, so
+// stdout is pointed at stderr before any of them load, and messages go to the original.
+const protocolOut = process.stdout;
+Object.defineProperty(process, 'stdout', { value: process.stderr, configurable: true, writable: true });
+
+const { CommandAgent } = await import('../CommandAgent.js');
+const { McpServer } = await import('./McpServer.js');
+
+const logger = pino({ name: '@swarm/command-agent:mcp' });
+const server = new McpServer(new CommandAgent());
+
+function write(message: unknown): void {
+  protocolOut.write(`${JSON.stringify(message)}\n`);
+}
+
+const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+const inFlight = new Set<Promise<void>>();
+
+// Requests run side by side; each response goes out as soon as it is ready
+lines.on('line', (line) => {
+  if (line.trim().length === 0) return;
+  const handled = server.handleText(line, {}, write)
+    .then(response => {
+      if (response !== undefined) write(response);
+    })
+    .catch(error => logger.error({ error: error instanceof Error ? error.message : error }, 'MCP message failed'))
+    .finally(() => inFlight.delete(handled));
+  inFlight.add(handled);
+});
+
+lines.on('close', async () => {
+  await Promise.all(inFlight);
+  logger.info('stdin closed; exiting');
+  protocolOut.write('', () => process.exit(0));
+});
+
+logger.info('MCP server listening on stdio');
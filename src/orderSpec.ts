@@ -0,0 +1,97 @@
+import { ExtractedEntities, OrderSpec, OrderType } from './types.js';
+
+export type OrderSpecResult =
+  | { ok: true; spec: OrderSpec }
+  | { ok: false; errors: string[] };
+
+const STOP_TYPES: OrderType[] = ['STOP', 'STOP_LIMIT', 'TRAILING_STOP'];
+
+// Turns trade entities into a complete order, or explains every invalid combination.
+// A bare `price` without an order type is a limit price.
+export function resolveOrderSpec(entities: ExtractedEntities, side: 'BUY' | 'SELL'): OrderSpecResult {
+  const limitPrice = entities.limitPrice ?? (entities.orderType === undefined || entities.orderType === 'LIMIT' || entities.orderType === 'STOP_LIMIT' ? entities.price : undefined);
+  const stopPrice = entities.stopPrice ?? (entities.orderType === 'STOP' ? entities.price : undefined);
+  const { trailAmount, trailPercent } = entities;
+
+  const orderType: OrderType = entities.orderType
+    ?? (trailAmount !== undefined || trailPercent !== undefined ? 'TRAILING_STOP'
+      : stopPrice !== undefined && limitPrice !== undefined ? 'STOP_LIMIT'
+      : stopPrice !== undefined ? 'STOP'
+      : limitPrice !== undefined ? 'LIMIT'
+      : 'MARKET');
+  const timeInForce = entities.timeInForce || 'DAY';
+
+  const errors: string[] = [];
+
+  switch (orderType) {
+    case 'MARKET':
+      if (limitPrice !== undefined || stopPrice !== undefined) errors.push('Market orders cannot have a limit or stop price.');
+      if (timeInForce === 'GTC') errors.push('Market orders cannot be good-til-cancelled.');
+      break;
+
+    case 'LIMIT':
+      if (limitPrice === undefined) errors.push('Limit orders need a limit price.');
+      if (stopPrice !== undefined) errors.push('Limit orders cannot have a stop price; use a stop-limit order.');
+      break;
+
+    case 'STOP':
+      if (stopPrice === undefined) errors.push('Stop orders need a stop price.');
+      break;
+
+    case 'STOP_LIMIT':
+      if (stopPrice === undefined || limitPrice === undefined) {
+        errors.push('Stop-limit orders need both a stop price and a limit price.');
+      } else if (side === 'BUY' && limitPrice < stopPrice) {
+        errors.push(`A buy stop-limit's limit ($${limitPrice}) cannot be below its stop ($${stopPrice}).`);
+      } else if (side === 'SELL' && limitPrice > stopPrice) {
+        errors.push(`A sell stop-limit's limit ($${limitPrice}) cannot be above its stop ($${stopPrice}).`);
+      }
+      break;
+
+    case 'TRAILING_STOP':
+      if ((trailAmount === undefined) === (trailPercent === undefined)) {
+        errors.push('Trailing stops need exactly one of a trail amount or a trail percent.');
+      }
+      if (limitPrice !== undefined || stopPrice !== undefined) errors.push('Trailing stops cannot have a fixed limit or stop price.');
+      break;
+  }
+
+  if (orderType !== 'TRAILING_STOP' && (trailAmount !== undefined || trailPercent !== undefined)) {
+    errors.push('Only trailing stop orders can have a trail amount or percent.');
+  }
+
+  if (timeInForce === 'IOC' && STOP_TYPES.includes(orderType)) {
+    errors.push('Stop and trailing stop orders cannot be immediate-or-cancel.');
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    spec: { orderType, limitPrice, stopPrice, trailAmount, trailPercent, timeInForce }
+  };
+}
+
+export function describeOrderSpec(spec: OrderSpec): string {
+  const tif = spec.timeInForce === 'DAY' ? 'day' : spec.timeInForce;
+
+  switch (spec.orderType) {
+    case 'MARKET':
+      return `market, ${tif}`;
+    case 'LIMIT':
+      return `limit @ $${spec.limitPrice}, ${tif}`;
+    case 'STOP':
+      return `stop @ $${spec.stopPrice}, ${tif}`;
+    case 'STOP_LIMIT':
+      return `stop @ $${spec.stopPrice} limit $${spec.limitPrice}, ${tif}`;
+    case 'TRAILING_STOP':
+      return `trailing stop ${spec.trailPercent !== undefined ? `${spec.trailPercent}%` : `$${spec.trailAmount}`}, ${tif}`;
+  }
+}
+
+// The price used to size and risk-check the order before it fills
+export function referencePrice(spec: OrderSpec, lastPrice?: number): number | undefined {
+  return spec.limitPrice ?? spec.stopPrice ?? lastPrice;
+}
@@ -0,0 +1,11 @@
+import { CommandResult } from './views.js';
+import { Renderer, RenderedResponse } from './Renderer.js';
+
+// For API consumers: no prose at all, the structured result travels alongside
+export class JsonRenderer implements Renderer {
+  readonly mode = 'json' as const;
+
+  render(_result: CommandResult): RenderedResponse {
+    return { message: '' };
+  }
+}
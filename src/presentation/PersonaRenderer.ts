@@ -0,0 +1,391 @@
+import { PersonaTemplates } from '../types.js';
+import { describeCondition } from '../AlertEngine.js';
+import { formatUsd, formatSignedUsd } from '../quantity.js';
+import { SETTING_LABELS, describeSettingValue } from '../UserSettingsStore.js';
+import { AgentAnalysis } from '../consensus.js';
+import { TechnicalSnapshot } from '../indicators.js';
+import { CommandResult, ResponseView } from './views.js';
+import { Renderer, RenderedResponse, plural, formatPercent } from './Renderer.js';
+import { fillTemplate } from './templates.js';
+import {
+  PlainRenderer,
+  describeOrderStatus,
+  describeOpenOrder,
+  describePosition,
+  describeAlert,
+  describeHistoryEntry,
+  describeSettings,
+  describeProposal,
+  describeScope,
+  analysisSubject,
+  describeAnalysisHeadline,
+  describeAnalysisMetrics,
+  describeAttribution,
+  describeSectorExposure,
+  describeTriggeredAlert
+} from './PlainRenderer.js';
+
+type TradeView = Extract<ResponseView, { kind: 'trade' }>;
+
+// The swarm's character voices. Every phrase comes from the templates; this class
+// only decides which one applies and fills in the numbers.
+export class PersonaRenderer implements Renderer {
+  readonly mode = 'persona' as const;
+  private templates: PersonaTemplates;
+  // Confirmations and notices carry no persona voice
+  private plain = new PlainRenderer();
+
+  constructor(templates: PersonaTemplates) {
+    this.templates = templates;
+  }
+
+  render(result: CommandResult): RenderedResponse {
+    const rendered = this.renderView(result.view);
+    const banners = [
+      ...(result.tradingMode === 'paper' ? [this.t('mode.paper')] : []),
+      ...(result.triggeredAlerts || []).map(alert => this.t('alert.triggered', { alert: describeTriggeredAlert(alert) }))
+    ];
+    if (banners.length === 0) {
+      return rendered;
+    }
+
+    return { ...rendered, message: `${banners.join('\n')}\n\n${rendered.message}` };
+  }
+
+  private t(key: string, values?: Record<string, string | number>): string {
+    const template = this.templates.messages[key];
+    return template === undefined ? key : fillTemplate(template, values);
+  }
+
+  private speaker(agent: string): string {
+    const { name, emoji } = this.templates.agents[agent] || { name: agent, emoji: '' };
+    return this.t('agent.speaker', { name, emoji });
+  }
+
+  private agentLine(agent: string, text: string): string {
+    const { name, emoji, role } = this.templates.agents[agent] || { name: agent, emoji: '', role: '' };
+    return this.t('agent.analysis', { name, emoji, role, text });
+  }
+
+  private emojiOf(name: string): string {
+    return this.templates.agents[name.toLowerCase()]?.emoji || '';
+  }
+
+  private renderView(view: ResponseView): RenderedResponse {
+    switch (view.kind) {
+      case 'notice': {
+        const key = `notice.${view.code}`;
+        return {
+          message: key in this.templates.messages ? this.t(key, { message: view.message }) : view.message,
+          followUp: this.templates.messages[`followUp.notice.${view.code}`]
+        };
+      }
+
+      case 'trade': {
+        const analysis = this.describeTradeAnalysis(view);
+        const { outcome } = view;
+        switch (outcome.type) {
+          case 'proposal':
+            return {
+              message: `${analysis}\n\n${this.t('trade.proposal', { proposal: describeProposal(outcome, view.intent, view.symbol), basis: outcome.basis })}`,
+              followUp: this.t('followUp.trade')
+            };
+          case 'unsized':
+            return { message: `${analysis}\n\n${this.t('trade.unsized', { error: outcome.error })}` };
+          case 'risk_rejected': {
+            const breaches = outcome.breaches.length > 0 ? outcome.breaches.map(breach => `• ${breach.message}`).join('\n') : '• Risk limits exceeded';
+            return { message: `${analysis}\n\n${this.t('trade.riskRejected', { breaches })}` };
+          }
+          case 'against':
+            return { message: `${analysis}\n\n${this.t('trade.against', { reason: outcome.reason })}` };
+        }
+      }
+
+      case 'trade_auto_confirmed': {
+        const proposal = view.proposal.kind === 'trade' ? this.describeTradeAnalysis(view.proposal) : this.renderView(view.proposal).message;
+        const execution = this.renderView(view.execution);
+        return {
+          message: `${proposal}\n\n${this.t('trade.autoConfirmed', { threshold: formatUsd(view.threshold) })}\n\n${execution.message}`,
+          followUp: execution.followUp
+        };
+      }
+
+      case 'order_placed': {
+        const { order } = view;
+        return order.status === 'REJECTED'
+          ? { message: `${this.speaker('tank')}${this.t('order.rejected', { side: order.side, qty: order.qty, symbol: order.symbol, reason: order.rejectReason || 'no reason given' })}` }
+          : {
+              message: `${this.speaker('tank')}${this.t('order.placed', { orderId: order.orderId, status: describeOrderStatus(order) })}`,
+              followUp: this.t('followUp.orderPlaced')
+            };
+      }
+
+      case 'order_cancelled': {
+        const { order } = view;
+        return {
+          message: this.speaker('tank') + (order.status === 'CANCELLED'
+            ? this.t('order.cancelled', { orderId: order.orderId, side: order.side, qty: order.qty, symbol: order.symbol })
+            : this.t('order.cancelRaced', { orderId: order.orderId, status: describeOrderStatus(order) }))
+        };
+      }
+
+      case 'orders':
+        return view.orders.length === 0
+          ? { message: `${this.speaker('tank')}${this.t('orders.none')}` }
+          : {
+              message: `${this.speaker('tank')}${this.t('orders.list', { count: plural(view.orders.length, 'open order'), lines: view.orders.map(describeOpenOrder).join('\n') })}`,
+              followUp: this.t('followUp.orders')
+            };
+
+      case 'halted':
+        return {
+          message: this.t('halted', { scope: view.halt.scope, since: view.halt.since, haltedBy: view.halt.haltedBy }),
+          followUp: this.t('followUp.halted')
+        };
+
+      case 'status':
+        return this.renderStatus(view);
+
+      case 'query': {
+        // One agent answers, picked at random for variety
+        const agents = Object.keys(this.templates.agents).filter(agent => `query.${agent}` in this.templates.messages);
+        const agent = agents[Math.floor(Math.random() * agents.length)];
+        const greeting = agent ? `${this.speaker(agent)}${this.t(`query.${agent}`)}\n\n` : '';
+        return {
+          message: `${greeting}${this.t('query.footer', { text: view.text })}`,
+          followUp: this.t('followUp.query')
+        };
+      }
+
+      case 'alerts': {
+        const active = view.alerts.filter(alert => alert.status === 'ACTIVE').length;
+        return {
+          message: view.alerts.length > 0
+            ? this.t('alerts.list', { count: plural(active, 'active alert'), lines: view.alerts.map(describeAlert).join('\n') })
+            : this.t('alerts.none')
+        };
+      }
+
+      case 'history':
+        return view.entries.length === 0
+          ? { message: this.t('history.none') }
+          : {
+              message: this.t('history.list', { count: plural(view.entries.length, 'command'), lines: view.entries.map(describeHistoryEntry).join('\n') }),
+              followUp: this.t('followUp.history')
+            };
+
+      case 'alert_created':
+        return {
+          message: this.t('alert.created', { symbol: view.alert.symbol, condition: describeCondition(view.alert.condition) }),
+          followUp: this.t('followUp.alertCreated', { expiresAt: view.alert.expiresAt || 'never' })
+        };
+
+      case 'analysis': {
+        const { report } = view;
+        let message = this.t('analysis.summary', {
+          subject: analysisSubject(report),
+          timeframe: report.timeframe,
+          headline: describeAnalysisHeadline(report),
+          metrics: describeAnalysisMetrics(report)
+        });
+        if (report.contributions.length > 0) {
+          message += `\n\n${this.t('analysis.attribution', { lines: describeAttribution(report) })}`;
+        }
+        if (report.sectorExposure.length > 0) {
+          message += `\n\n${this.t('analysis.exposure', { sectors: describeSectorExposure(report) })}`;
+        }
+        if (report.observations < 2) {
+          message += `\n\n${this.t('analysis.shortWindow')}`;
+        }
+        if (report.missingSymbols.length > 0) {
+          message += `\n\n${this.t('analysis.missing', { symbols: report.missingSymbols.join(', ') })}`;
+        }
+        return { message, followUp: this.t('followUp.analysis') };
+      }
+
+      case 'analysis_unavailable':
+        return {
+          message: `${this.speaker('reflecta')}${this.t('analysis.unavailable', { error: view.error })}`,
+          followUp: this.t('followUp.analysisUnavailable')
+        };
+
+      case 'settings':
+        return {
+          message: this.t(view.understood ? 'settings.list' : 'settings.unclear', { lines: describeSettings(view.settings) }),
+          followUp: this.t('followUp.settings')
+        };
+
+      case 'setting_updated':
+        return {
+          message: this.t('settings.updated', {
+            label: SETTING_LABELS[view.key],
+            previous: describeSettingValue(view.key, view.previous),
+            value: describeSettingValue(view.key, view.value)
+          }),
+          followUp: this.t('followUp.settingUpdated')
+        };
+
+      case 'stopped': {
+        const cancelled = plural(view.cancelledOrderIds.length, 'open order');
+        const voices = (['blip', 'tank', 'sheldon', 'aqua', 'reflecta'] as const).map(agent =>
+          `${this.speaker(agent)}${this.t(`stop.${agent}`, { cancelled })}`
+        );
+        return {
+          message: `${this.t('stop.header')}\n\n${voices.join('\n')}\n\n${this.t('stop.footer', { scope: describeScope(view.scope) })}`,
+          followUp: this.t('followUp.stopped')
+        };
+      }
+
+      case 'resumed':
+        return {
+          message: view.stillHalted
+            ? this.t('resume.stillHalted', { scope: view.scope, remainingScope: view.stillHalted.scope, since: view.stillHalted.since, haltedBy: view.stillHalted.haltedBy })
+            : `${this.speaker('tank')}${this.t('resume.done', { scope: describeScope(view.scope) })}`
+        };
+
+      case 'plan_result': {
+        const succeeded = view.steps.filter(step => step.status === 'succeeded').length;
+        const sections = view.steps.map((step, index) => this.t('plan.step', {
+          index: index + 1,
+          intent: step.intent,
+          icon: this.t(`plan.icon.${step.status}`),
+          message: this.renderView(step.view).message
+        }));
+        return { message: this.t('plan.summary', { succeeded, total: view.steps.length, sections: sections.join('\n\n') }) };
+      }
+
+      case 'trade_invalid':
+      case 'confirm_command':
+      case 'confirm_plan':
+        return this.plain.render({ success: true, view });
+    }
+  }
+
+  private describeTradeAnalysis(view: TradeView): string {
+    const { analysis, consensus, symbol, intent } = view;
+    let message = `${this.t('trade.header', { symbol })}\n\n${this.describeAgents(analysis, intent, symbol)}`;
+    message += `\n${this.t('trade.consensus', { version: consensus.policyVersion, decision: consensus.decision })}\n`;
+    if (consensus.shouldProceed) {
+      message += `\n${this.t('trade.proceed', { intent, symbol })}`;
+    }
+    return message;
+  }
+
+  private describeAgents(analysis: AgentAnalysis, intent: 'BUY' | 'SELL', symbol: string): string {
+    const lines: string[] = [];
+    const { marketData, sentiment, technical, strategy, risk } = analysis;
+
+    if (marketData) {
+      const mood = marketData.change > 2 ? 'surge' : marketData.change > 0 ? 'up' : marketData.change < 0 ? 'down' : 'flat';
+      lines.push(this.agentLine('blip', this.t(`blip.${mood}`, {
+        symbol,
+        price: formatUsd(marketData.price),
+        change: formatPercent(marketData.change),
+        volume: `${(marketData.volume / 1000000).toFixed(1)}M`
+      })));
+    }
+
+    if (sentiment) {
+      const mood = sentiment.score > 0.6 ? 'bullish' : sentiment.score < 0.4 ? 'bearish' : 'neutral';
+      lines.push(this.agentLine('gilly', this.t(`gilly.${mood}`, { symbol, score: `${(sentiment.score * 100).toFixed(0)}%` })));
+    }
+
+    if (technical) {
+      lines.push(this.agentLine('margo', this.describeTechnical(technical, symbol)));
+    }
+
+    if (strategy) {
+      const spark = strategy.confidence > 0.8 ? 'eureka' : strategy.confidence > 0.6 ? 'lit' : 'thinking';
+      lines.push(this.agentLine('aqua', this.t('aqua.summary', {
+        spark: this.t(`aqua.spark.${spark}`),
+        tone: this.t(strategy.recommendation === intent ? 'aqua.tone.agree' : 'aqua.tone.disagree'),
+        recommendation: strategy.recommendation,
+        confidence: `${(strategy.confidence * 100).toFixed(0)}%`,
+        reasoning: strategy.reasoning
+      })));
+    }
+
+    if (risk) {
+      const mood = risk.score > 7 ? 'high' : risk.score > 5 ? 'elevated' : 'low';
+      lines.push(this.agentLine('sheldon', this.t('sheldon.summary', {
+        mood: this.t(`sheldon.mood.${mood}`),
+        symbol,
+        score: risk.score,
+        status: risk.status,
+        factors: risk.factors.length > 0 ? risk.factors.join(', ') : this.t('sheldon.factors.none'),
+        closing: this.t(`sheldon.closing.${intent}`)
+      })));
+    }
+
+    return lines.map(line => `${line}\n`).join('');
+  }
+
+  private describeTechnical(technical: TechnicalSnapshot, symbol: string): string {
+    const trend = technical.trend.toLowerCase();
+    const rsi = technical.rsi === undefined ? 'unknown'
+      : technical.rsi >= 70 ? 'overbought'
+      : technical.rsi <= 30 ? 'oversold'
+      : 'neutral';
+
+    let details = '';
+    if (technical.macd) {
+      details += this.t('margo.macd', { histogram: `${technical.macd.histogram >= 0 ? '+' : ''}${technical.macd.histogram.toFixed(2)}` });
+    }
+    if (technical.crossover?.crossed) {
+      details += this.t(`margo.cross.${technical.crossover.crossed}`);
+    }
+    if (technical.bollinger) {
+      details += this.t('margo.band', { percentB: `${(technical.bollinger.percentB * 100).toFixed(0)}%` });
+    }
+    if (technical.support !== undefined && technical.resistance !== undefined) {
+      details += this.t('margo.levels', { support: formatUsd(technical.support), resistance: formatUsd(technical.resistance) });
+    }
+
+    return this.t('margo.summary', {
+      symbol,
+      flow: this.t(`margo.flow.${trend}`),
+      rsi: this.t(`margo.rsi.${rsi}`, { rsi: technical.rsi?.toFixed(1) ?? '' }),
+      details,
+      trend: this.t(`margo.trend.${trend}`)
+    });
+  }
+
+  private renderStatus(view: Extract<ResponseView, { kind: 'status' }>): RenderedResponse {
+    const haltLine = view.halt
+      ? this.t('status.halted', { scope: view.halt.scope, since: view.halt.since, haltedBy: view.halt.haltedBy })
+      : this.t('status.active');
+
+    let portfolio: string;
+    if (!view.portfolio) {
+      portfolio = this.t('status.portfolioUnavailable', { error: view.portfolioError || 'unknown error' });
+    } else {
+      const { portfolio: snapshot } = view;
+      const dailyPnl = snapshot.dailyPnl === undefined
+        ? this.t('status.pnl.missing')
+        : this.t(snapshot.dailyPnl >= 0 ? 'status.pnl.up' : 'status.pnl.down', { pnl: formatSignedUsd(snapshot.dailyPnl) });
+      const summary = view.filter
+        ? this.t('status.filtered', { filter: view.filter, shown: view.positions.length, total: snapshot.positions.length })
+        : this.t('status.portfolio', {
+            asOf: snapshot.asOf,
+            value: formatUsd(snapshot.totalValue),
+            cash: formatUsd(snapshot.cash),
+            dailyPnl,
+            count: snapshot.positions.length
+          });
+      const positions = view.positions.length > 0
+        ? view.positions.map(describePosition).join('\n')
+        : view.filter ? this.t('status.noFilteredPositions', { filter: view.filter }) : this.t('status.noPositions');
+      portfolio = `${summary}\n\n${positions}`;
+    }
+
+    const agents = view.agents.map(agent => agent.down.length === 0
+      ? this.t('status.agentOnline', { emoji: this.emojiOf(agent.name), name: agent.name, services: agent.services.join(', '), latency: agent.latencyMs ?? 0 })
+      : this.t('status.agentDown', { emoji: this.emojiOf(agent.name), name: agent.name, services: agent.services.join(', '), down: agent.down.join(', ') })
+    );
+
+    return {
+      message: `${this.t('status.header')}\n\n${haltLine}\n\n${portfolio}\n\n${this.t('status.services')}\n${agents.join('\n')}`,
+      followUp: this.t(view.filter ? 'followUp.statusFiltered' : 'followUp.status')
+    };
+  }
+}
@@ -0,0 +1,404 @@
+import { Alert, Order, OrderSpec, ParsedCommand, CommandPlan, Position, UserSettings, UserSettingKey } from '../types.js';
+import { describeCondition } from '../AlertEngine.js';
+import { resolveOrderSpec, describeOrderSpec } from '../orderSpec.js';
+import { describeTradeSize, formatUsd, formatSignedUsd } from '../quantity.js';
+import { SETTING_LABELS, describeSettingValue } from '../UserSettingsStore.js';
+import { AgentAnalysis } from '../consensus.js';
+import { AnalysisReport } from '../PortfolioAnalytics.js';
+import { HaltScope } from '../TradingHaltService.js';
+import { HistoryEntry } from '../SessionStore.js';
+import { CommandResult, ResponseView } from './views.js';
+import { Renderer, RenderedResponse, plural, formatPercent } from './Renderer.js';
+
+// Wording shared by every mode: the facts are the same, only the voice around them changes
+
+export function describeOrderStatus(order: Order): string {
+  const fill = order.avgFillPrice ? ` @ $${order.avgFillPrice}` : '';
+  const commission = order.commission !== undefined ? ` (commission ${formatUsd(order.commission)})` : '';
+  switch (order.status) {
+    case 'FILLED':
+      return `filled: ${order.side} ${order.filledQty} ${order.symbol}${fill}${commission}.`;
+    case 'PARTIALLY_FILLED':
+      return `partially filled: ${order.filledQty}/${order.qty} ${order.symbol}${fill}.`;
+    case 'CANCELLED':
+      return `cancelled after ${order.filledQty}/${order.qty} filled.`;
+    case 'REJECTED':
+      return `rejected: ${order.rejectReason || 'no reason given'}.`;
+    default:
+      return `submitted: ${order.side} ${order.qty} ${order.symbol}. Awaiting fills.`;
+  }
+}
+
+export function describeOpenOrder(order: Order): string {
+  return `• ${order.orderId}: ${order.side} ${order.qty} ${order.symbol} — ${order.status} (${order.filledQty}/${order.qty} filled)`;
+}
+
+export function describePosition(position: Position): string {
+  const price = position.marketPrice !== undefined ? ` @ ${formatUsd(position.marketPrice)}` : '';
+  const value = position.marketValue !== undefined ? ` = ${formatUsd(position.marketValue)}` : '';
+  const pnl = position.dailyPnl !== undefined ? `, today ${formatSignedUsd(position.dailyPnl)}` : '';
+  return `• ${position.symbol}: ${position.qty} shares${price}${value}${pnl}`;
+}
+
+export function describeAlert(alert: Alert): string {
+  const fired = alert.status === 'TRIGGERED' ? ` — fired ${alert.triggeredAt} at $${alert.triggeredPrice}` : '';
+  return `• ${alert.symbol} ${describeCondition(alert.condition)} (${alert.status}${fired})`;
+}
+
+export function describeHistoryEntry(entry: HistoryEntry): string {
+  const reply = entry.response.split('\n')[0];
+  const summary = reply.length > 80 ? `${reply.slice(0, 77)}...` : reply;
+  return `• ${entry.timestamp.slice(0, 16).replace('T', ' ')} "${entry.command}"${entry.success ? '' : ' (failed)'} → ${summary}`;
+}
+
+export function describeSettings(settings: UserSettings): string {
+  return (Object.keys(SETTING_LABELS) as UserSettingKey[])
+    .map(key => `• ${SETTING_LABELS[key]}: ${describeSettingValue(key, settings[key])}`)
+    .join('\n');
+}
+
+export function describeProposal(outcome: { qty: number; notional?: number; spec: OrderSpec }, intent: string, symbol: string): string {
+  return `${intent} ${outcome.qty} shares of ${symbol}${outcome.notional !== undefined ? ` ≈ ${formatUsd(outcome.notional)}` : ''} (${describeOrderSpec(outcome.spec)})`;
+}
+
+export function describeScope(scope: HaltScope): string {
+  return scope === 'global' ? 'for ALL users' : 'for your account';
+}
+
+export function analysisSubject(report: AnalysisReport): string {
+  return report.symbol || (report.sector ? `your ${report.sector} positions` : 'your portfolio');
+}
+
+// "Your portfolio rose 1.20% (+$1,200.00), mostly from AAPL (+$900.00)."
+export function describeAnalysisHeadline(report: AnalysisReport): string {
+  const subject = analysisSubject(report);
+  // Lead with the holdings that drove the move: detractors for a loss, contributors for a gain
+  const drivers = (report.pnl < 0 ? report.contributions : [...report.contributions].reverse())
+    .filter(contribution => Math.sign(contribution.pnl) === Math.sign(report.pnl))
+    .slice(0, 3);
+  const driverText = drivers.length > 0 && report.scope === 'portfolio'
+    ? `, mostly from ${drivers.map(driver => `${driver.symbol} (${formatSignedUsd(driver.pnl)})`).join(', ')}`
+    : '';
+
+  return `${subject.charAt(0).toUpperCase()}${subject.slice(1)} ${report.pnl < 0 ? 'fell' : 'rose'} ${Math.abs(report.totalReturn * 100).toFixed(2)}% (${formatSignedUsd(report.pnl)})${driverText}.`;
+}
+
+export function describeAnalysisMetrics(report: AnalysisReport): string {
+  return [
+    `• Return: ${formatPercent(report.totalReturn * 100)} (${formatSignedUsd(report.pnl)})`,
+    report.volatility !== undefined ? `• Volatility (annualized): ${(report.volatility * 100).toFixed(1)}%` : undefined,
+    report.sharpe !== undefined ? `• Sharpe ratio: ${report.sharpe.toFixed(2)}` : undefined,
+    `• Max drawdown: ${(report.maxDrawdown * 100).toFixed(2)}%`,
+    report.beta !== undefined ? `• Beta vs ${report.benchmark}: ${report.beta.toFixed(2)}` : undefined
+  ].filter(Boolean).join('\n');
+}
+
+export function describeAttribution(report: AnalysisReport): string {
+  return report.contributions.map(contribution =>
+    `• ${contribution.symbol}: ${formatSignedUsd(contribution.pnl)} (${formatPercent(contribution.returnPct)}, ${contribution.contributionPct >= 0 ? '+' : ''}${contribution.contributionPct.toFixed(2)} pts)`
+  ).join('\n');
+}
+
+export function describeSectorExposure(report: AnalysisReport): string {
+  return report.sectorExposure.map(entry => `${entry.sector} ${(entry.weight * 100).toFixed(1)}%`).join(', ');
+}
+
+export function describeTriggeredAlert(alert: Alert): string {
+  return `${alert.symbol} ${describeCondition(alert.condition)} — hit $${alert.triggeredPrice} at ${alert.triggeredAt}`;
+}
+
+function describeOrder(entities: ParsedCommand['entities'], side: 'BUY' | 'SELL'): string {
+  const orderSpec = resolveOrderSpec(entities, side);
+  return orderSpec.ok ? ` (${describeOrderSpec(orderSpec.spec)})` : '';
+}
+
+export function describeConfirmation(command: ParsedCommand): string {
+  const { intent, entities } = command;
+
+  switch (intent) {
+    case 'BUY':
+      return `Confirm: Buy ${describeTradeSize(entities, 'BUY')}${describeOrder(entities, 'BUY')}?`;
+
+    case 'SELL':
+      return `Confirm: Sell ${describeTradeSize(entities, 'SELL')}${describeOrder(entities, 'SELL')}?`;
+
+    case 'ALERT':
+      return entities.condition
+        ? `Confirm: Set alert for ${entities.symbol} when it ${describeCondition(entities.condition)}?`
+        : `Confirm: Update ${entities.symbol || 'your'} alerts?`;
+
+    case 'RESUME':
+      return `Confirm: Resume trading ${describeScope(entities.scope || 'user')}?`;
+
+    default:
+      return `Confirm: Execute ${intent.toLowerCase()} command?`;
+  }
+}
+
+export function describePlanConfirmation(plan: CommandPlan): string {
+  const lines = plan.steps.map((step, index) => {
+    const { intent, entities } = step.command;
+
+    if (step.amountFrom) {
+      const source = plan.steps.find(other => other.id === step.amountFrom!.step)!;
+      const share = step.amountFrom.fraction === 1 ? 'all' : `${step.amountFrom.fraction * 100}%`;
+      const funds = source.command.intent === 'SELL' ? 'proceeds' : 'cost';
+      return `${index + 1}. ${intent === 'BUY' ? 'Buy' : 'Sell'} ${entities.symbol} with ${share} of the ${funds} from step ${plan.steps.indexOf(source) + 1}`;
+    }
+
+    return `${index + 1}. ${describeConfirmation(step.command).replace(/^Confirm: /, '').replace(/\?$/, '')}`;
+  });
+
+  return `Confirm this ${plan.steps.length}-step plan?\n\n${lines.join('\n')}`;
+}
+
+function describeAgentAnalysis(analysis: AgentAnalysis): string {
+  const { marketData, sentiment, technical, strategy, risk } = analysis;
+  const lines: string[] = [];
+
+  if (marketData && marketData.source !== 'mock') {
+    lines.push(`• Price: ${formatUsd(marketData.price)} (${formatPercent(marketData.change)}), volume ${(marketData.volume / 1000000).toFixed(1)}M`);
+  }
+  if (sentiment) {
+    lines.push(`• Sentiment: ${(sentiment.score * 100).toFixed(0)}%`);
+  }
+  if (technical) {
+    const rsi = technical.rsi !== undefined ? `, RSI ${technical.rsi.toFixed(1)}` : '';
+    const levels = technical.support !== undefined && technical.resistance !== undefined
+      ? `, support ${formatUsd(technical.support)}, resistance ${formatUsd(technical.resistance)}`
+      : '';
+    lines.push(`• Technical: ${technical.trend}${rsi}${levels}`);
+  }
+  if (strategy) {
+    lines.push(`• Strategy: ${strategy.recommendation} (${(strategy.confidence * 100).toFixed(0)}% confidence)`);
+  }
+  if (risk) {
+    lines.push(`• Risk: ${risk.score}/10 (${risk.status})`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+// Follow-up hints keyed by notice code
+const NOTICE_FOLLOW_UPS: Record<string, string> = {
+  nothing_pending: 'Try: "buy AAPL" or "show status".'
+};
+
+// A professional summary without personas or emoji, for users who turned persona mode off
+export class PlainRenderer implements Renderer {
+  readonly mode = 'plain' as const;
+
+  render(result: CommandResult): RenderedResponse {
+    const rendered = this.renderView(result.view);
+    const banners = [
+      ...(result.tradingMode === 'paper' ? ['Paper trading: simulated account, no real orders.'] : []),
+      ...(result.triggeredAlerts || []).map(alert => `Alert: ${describeTriggeredAlert(alert)}`)
+    ];
+    if (banners.length === 0) {
+      return rendered;
+    }
+
+    return { ...rendered, message: `${banners.join('\n')}\n\n${rendered.message}` };
+  }
+
+  private renderView(view: ResponseView): RenderedResponse {
+    switch (view.kind) {
+      case 'notice':
+        return { message: view.message, followUp: NOTICE_FOLLOW_UPS[view.code] };
+
+      case 'trade_invalid':
+        return { message: `That ${view.intent} order for ${view.symbol} is not valid:\n${view.errors.map(error => `• ${error}`).join('\n')}` };
+
+      case 'trade': {
+        const analysis = this.describeTradeAnalysis(view);
+        const { outcome } = view;
+        switch (outcome.type) {
+          case 'proposal':
+            return {
+              message: `${analysis}\n\nConfirm: ${describeProposal(outcome, view.intent, view.symbol)}?\nSized from ${outcome.basis}.`,
+              followUp: "Reply with 'yes' to confirm or 'no' to cancel."
+            };
+          case 'unsized':
+            return { message: `${analysis}\n\nCould not size this trade: ${outcome.error}` };
+          case 'risk_rejected':
+            return { message: `${analysis}\n\nFinal risk check failed:\n${outcome.breaches.length > 0 ? outcome.breaches.map(breach => `• ${breach.message}`).join('\n') : '• Risk limits exceeded'}` };
+          case 'against':
+            return { message: `${analysis}\n\nAgents recommend against this trade: ${outcome.reason}` };
+        }
+      }
+
+      case 'trade_auto_confirmed': {
+        const proposal = view.proposal.kind === 'trade' ? this.describeTradeAnalysis(view.proposal) : this.renderView(view.proposal).message;
+        const execution = this.renderView(view.execution);
+        return {
+          message: `${proposal}\n\nUnder your ${formatUsd(view.threshold)} confirmation threshold, placed without asking.\n\n${execution.message}`,
+          followUp: execution.followUp
+        };
+      }
+
+      case 'order_placed':
+        return view.order.status === 'REJECTED'
+          ? { message: `Order rejected. ${view.order.side} ${view.order.qty} ${view.order.symbol} did not go through: ${view.order.rejectReason || 'no reason given'}` }
+          : {
+              message: `Order ${view.order.orderId} ${describeOrderStatus(view.order)}`,
+              followUp: 'Say "show open orders" to track it or "cancel my last order" to pull it.'
+            };
+
+      case 'order_cancelled':
+        return {
+          message: view.order.status === 'CANCELLED'
+            ? `Order ${view.order.orderId} (${view.order.side} ${view.order.qty} ${view.order.symbol}) cancelled.`
+            : `Cancel for ${view.order.orderId} came back ${describeOrderStatus(view.order)}`
+        };
+
+      case 'orders':
+        return view.orders.length === 0
+          ? { message: 'No open orders.' }
+          : {
+              message: `${plural(view.orders.length, 'open order')}:\n\n${view.orders.map(describeOpenOrder).join('\n')}`,
+              followUp: 'Say "cancel my last order" to pull the most recent one.'
+            };
+
+      case 'halted':
+        return {
+          message: `Trading is HALTED (${view.halt.scope}) since ${view.halt.since} by ${view.halt.haltedBy}. No orders will be placed.`,
+          followUp: 'Say "resume trading" to lift the halt.'
+        };
+
+      case 'status': {
+        const haltLine = view.halt
+          ? `Trading HALTED (${view.halt.scope}) since ${view.halt.since} by ${view.halt.haltedBy}.`
+          : 'Trading active.';
+
+        let portfolio: string;
+        if (!view.portfolio) {
+          portfolio = `Portfolio unavailable: ${view.portfolioError}`;
+        } else {
+          const { portfolio: snapshot } = view;
+          const summary = view.filter
+            ? `${view.filter} positions (${view.positions.length} of ${snapshot.positions.length}):`
+            : `Portfolio as of ${snapshot.asOf}:\n• Value: ${formatUsd(snapshot.totalValue)}\n• Cash: ${formatUsd(snapshot.cash)}\n• Daily P&L: ${snapshot.dailyPnl !== undefined ? formatSignedUsd(snapshot.dailyPnl) : 'not reported'}\n• Open positions: ${snapshot.positions.length}`;
+          portfolio = view.positions.length > 0
+            ? `${summary}\n\n${view.positions.map(describePosition).join('\n')}`
+            : `${summary}\n\nNo ${view.filter ? `${view.filter} ` : ''}positions.`;
+        }
+
+        const agents = view.agents.map(agent => agent.down.length === 0
+          ? `• ${agent.name} (${agent.services.join(', ')}): online, ${agent.latencyMs} ms`
+          : `• ${agent.name} (${agent.services.join(', ')}): ${agent.down.join(', ')} unreachable`
+        );
+
+        return {
+          message: `${haltLine}\n\n${portfolio}\n\nServices:\n${agents.join('\n')}`,
+          followUp: view.filter
+            ? 'Say "show status" for the whole portfolio.'
+            : 'Try "status of my tech positions" or "status of AAPL" to narrow it down.'
+        };
+      }
+
+      case 'query':
+        return {
+          message: `I understand you're asking: "${view.text}". I can help with trading, analysis, portfolio status and market insights.`,
+          followUp: 'Try: "buy AAPL", "show status", "analyze portfolio", or "what\'s the sentiment on Tesla?"'
+        };
+
+      case 'alerts': {
+        const active = view.alerts.filter(alert => alert.status === 'ACTIVE').length;
+        return {
+          message: view.alerts.length > 0
+            ? `You have ${plural(active, 'active alert')}:\n\n${view.alerts.map(describeAlert).join('\n')}`
+            : 'You have no alerts set.'
+        };
+      }
+
+      case 'history':
+        return view.entries.length === 0
+          ? { message: 'No commands on record yet.' }
+          : {
+              message: `Your last ${plural(view.entries.length, 'command')}, newest first:\n\n${view.entries.map(describeHistoryEntry).join('\n')}`,
+              followUp: 'Say "show my last 20 commands" to see more.'
+            };
+
+      case 'alert_created':
+        return {
+          message: `Alert set: ${view.alert.symbol} ${describeCondition(view.alert.condition)}`,
+          followUp: `I'll notify you once when the condition is met. The alert expires ${view.alert.expiresAt}.`
+        };
+
+      case 'analysis': {
+        const { report } = view;
+        let message = `Analysis of ${analysisSubject(report)} over ${report.timeframe}:\n\n${describeAnalysisHeadline(report)}\n\n${describeAnalysisMetrics(report)}`;
+        if (report.contributions.length > 0) {
+          message += `\n\nP&L attribution:\n${describeAttribution(report)}`;
+        }
+        if (report.sectorExposure.length > 0) {
+          message += `\n\nSector exposure: ${describeSectorExposure(report)}`;
+        }
+        if (report.observations < 2) {
+          message += '\n\nOne session is too short for volatility, Sharpe or beta; ask for a longer timeframe like "1m".';
+        }
+        if (report.missingSymbols.length > 0) {
+          message += `\n\nNo price history for ${report.missingSymbols.join(', ')}; left out of these numbers.`;
+        }
+        return { message, followUp: 'Try a symbol, a sector or a timeframe like 1w, 1m or 1y.' };
+      }
+
+      case 'analysis_unavailable':
+        return {
+          message: `Analysis unavailable. ${view.error}`,
+          followUp: 'Check "show status" for which services are reachable.'
+        };
+
+      case 'settings':
+        return {
+          message: view.understood
+            ? `Your settings:\n\n${describeSettings(view.settings)}`
+            : `I couldn't tell which setting to change. Your current settings:\n\n${describeSettings(view.settings)}`,
+          followUp: 'Try "set my max position to $5k", "require confirmation for trades over $1000" or "turn off persona mode".'
+        };
+
+      case 'setting_updated':
+        return {
+          message: `${SETTING_LABELS[view.key]}: ${describeSettingValue(view.key, view.previous)} → ${describeSettingValue(view.key, view.value)}`,
+          followUp: 'Say "show my settings" to review everything.'
+        };
+
+      case 'stopped': {
+        const alerts = view.disabledAlertIds.length > 0 ? `, ${plural(view.disabledAlertIds.length, 'alert')} disabled` : '';
+        return {
+          message: `Emergency stop: trading suspended ${describeScope(view.scope)}. ${plural(view.cancelledOrderIds.length, 'open order')} cancelled${alerts}.`,
+          followUp: 'Say "resume trading" when ready.'
+        };
+      }
+
+      case 'resumed':
+        return {
+          message: view.stillHalted
+            ? `Your ${view.scope} halt is lifted, but trading is still HALTED (${view.stillHalted.scope}) since ${view.stillHalted.since} by ${view.stillHalted.haltedBy}.`
+            : `Trading resumed ${describeScope(view.scope)}.`
+        };
+
+      case 'plan_result': {
+        const succeeded = view.steps.filter(step => step.status === 'succeeded').length;
+        const sections = view.steps.map((step, index) =>
+          `${index + 1}. ${step.intent} (${step.status})\n${this.renderView(step.view).message}`
+        );
+        return { message: `Plan execution: ${succeeded}/${view.steps.length} steps succeeded\n\n${sections.join('\n\n')}` };
+      }
+
+      case 'confirm_command':
+        return { message: describeConfirmation(view.command), followUp: 'Reply with "yes" to confirm or "no" to cancel.' };
+
+      case 'confirm_plan':
+        return {
+          message: describePlanConfirmation(view.plan),
+          followUp: 'Reply with "yes" to run every step in order or "no" to cancel. Execution stops at the first failed step.'
+        };
+    }
+  }
+
+  private describeTradeAnalysis(view: Extract<ResponseView, { kind: 'trade' }>): string {
+    const proceed = view.consensus.shouldProceed ? `\nAgents recommend proceeding with ${view.intent} of ${view.symbol}.` : '';
+    return `Analysis for ${view.symbol}:\n\n${describeAgentAnalysis(view.analysis)}\nConsensus (policy ${view.consensus.policyVersion}): ${view.consensus.decision}${proceed}`;
+  }
+}
@@ -0,0 +1,20 @@
+import { OutputMode } from '../types.js';
+import { CommandResult } from './views.js';
+
+export interface RenderedResponse {
+  message: string;
+  followUp?: string;
+}
+
+export interface Renderer {
+  readonly mode: OutputMode;
+  render(result: CommandResult): RenderedResponse;
+}
+
+export function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+export function formatPercent(value: number, digits: number = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+}
@@ -0,0 +1,17 @@
+import { OutputMode, PersonaTemplates } from '../types.js';
+import { Renderer } from './Renderer.js';
+import { PersonaRenderer } from './PersonaRenderer.js';
+import { PlainRenderer } from './PlainRenderer.js';
+import { JsonRenderer } from './JsonRenderer.js';
+import { loadPersonaTemplates } from './templates.js';
+
+export type RendererSet = Record<OutputMode, Renderer>;
+
+// Renderers hold no per-request state, so one of each serves every request
+export function createRenderers(templates: PersonaTemplates = loadPersonaTemplates()): RendererSet {
+  return {
+    persona: new PersonaRenderer(templates),
+    plain: new PlainRenderer(),
+    json: new JsonRenderer()
+  };
+}
@@ -0,0 +1,37 @@
+import { readFileSync } from 'fs';
+import { PersonaTemplates } from '../types.js';
+import defaultTemplates from './personas/en.json' with { type: 'json' };
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:presentation' });
+
+export const DEFAULT_PERSONA_TEMPLATES: PersonaTemplates = PersonaTemplates.parse(defaultTemplates);
+
+// PERSONA_TEMPLATES_FILE holds edited or translated copy in the same shape as
+// personas/en.json. Anything it leaves out falls back to the bundled English, and a
+// file that does not validate stops startup like a bad consensus policy.
+export function loadPersonaTemplates(file: string | undefined = process.env.PERSONA_TEMPLATES_FILE): PersonaTemplates {
+  if (!file) {
+    return DEFAULT_PERSONA_TEMPLATES;
+  }
+
+  const override = PersonaTemplates.partial().parse(JSON.parse(readFileSync(file, 'utf8')));
+  const unknown = Object.keys(override.messages || {}).filter(key => !(key in DEFAULT_PERSONA_TEMPLATES.messages));
+  if (unknown.length > 0) {
+    logger.warn({ file, keys: unknown }, 'Persona templates define messages that are never used');
+  }
+
+  const templates: PersonaTemplates = {
+    locale: override.locale || DEFAULT_PERSONA_TEMPLATES.locale,
+    agents: { ...DEFAULT_PERSONA_TEMPLATES.agents, ...override.agents },
+    messages: { ...DEFAULT_PERSONA_TEMPLATES.messages, ...override.messages }
+  };
+  logger.info({ file, locale: templates.locale }, 'Persona templates loaded');
+  return templates;
+}
+
+// Replaces `{name}` placeholders; an unknown placeholder is left in place so a typo
+// in a template shows up in the output instead of silently vanishing
+export function fillTemplate(template: string, values: Record<string, string | number> = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => key in values ? String(values[key]) : match);
+}
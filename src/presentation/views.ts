@@ -0,0 +1,69 @@
+import { Alert, CommandPlan, CommandIntentType, Order, OrderSpec, ParsedCommand, PortfolioSnapshot, Position, TradingMode, UserSettings, UserSettingKey } from '../types.js';
+import { HaltRecord, HaltScope } from '../TradingHaltService.js';
+import { AgentAnalysis, ConsensusResult } from '../consensus.js';
+import { AnalysisReport } from '../PortfolioAnalytics.js';
+import { RiskBreach } from '../exposure.js';
+import { HistoryEntry } from '../SessionStore.js';
+
+// Handlers describe what happened as a view and renderers word it. Only `notice`
+// views carry finished text, for one-line outcomes with no persona variant.
+
+export type TradeOutcome =
+  | { type: 'proposal'; qty: number; notional?: number; basis: string; spec: OrderSpec }
+  | { type: 'unsized'; error: string }
+  | { type: 'risk_rejected'; breaches: RiskBreach[] }
+  | { type: 'against'; reason: string };
+
+export interface AgentHealth {
+  name: string;
+  services: string[];
+  // Services that did not answer the probe; empty when the agent is online
+  down: string[];
+  latencyMs?: number;
+}
+
+export interface PlanStepView {
+  id: string;
+  intent: CommandIntentType;
+  status: 'succeeded' | 'failed' | 'skipped';
+  view: ResponseView;
+}
+
+export type ResponseView =
+  | { kind: 'notice'; code: string; message: string }
+  | { kind: 'trade_invalid'; intent: 'BUY' | 'SELL'; symbol: string; errors: string[] }
+  | { kind: 'trade'; intent: 'BUY' | 'SELL'; symbol: string; analysis: AgentAnalysis; consensus: ConsensusResult; outcome: TradeOutcome }
+  | { kind: 'trade_auto_confirmed'; threshold: number; proposal: ResponseView; execution: ResponseView }
+  | { kind: 'order_placed'; order: Order }
+  | { kind: 'order_cancelled'; order: Order }
+  | { kind: 'orders'; orders: Order[] }
+  | { kind: 'halted'; halt: HaltRecord }
+  | { kind: 'status'; halt: HaltRecord | null; portfolio: PortfolioSnapshot | null; portfolioError?: string; positions: Position[]; filter?: string; agents: AgentHealth[] }
+  | { kind: 'query'; text: string }
+  | { kind: 'alerts'; alerts: Alert[] }
+  | { kind: 'history'; entries: HistoryEntry[] }
+  | { kind: 'alert_created'; alert: Alert }
+  | { kind: 'analysis'; report: AnalysisReport }
+  | { kind: 'analysis_unavailable'; error: string }
+  | { kind: 'settings'; settings: UserSettings; understood: boolean }
+  | { kind: 'setting_updated'; key: UserSettingKey; previous: number | boolean; value: number | boolean }
+  | { kind: 'stopped'; scope: HaltScope; cancelledOrderIds: string[]; disabledAlertIds: string[] }
+  | { kind: 'resumed'; scope: HaltScope; stillHalted: HaltRecord | null }
+  | { kind: 'plan_result'; steps: PlanStepView[] }
+  | { kind: 'confirm_command'; command: ParsedCommand }
+  | { kind: 'confirm_plan'; plan: CommandPlan };
+
+// What the router and agent hand to a renderer
+export interface CommandResult {
+  success: boolean;
+  view: ResponseView;
+  data?: any;
+  // Alerts that fired since the user's last command, delivered with this result
+  triggeredAlerts?: Alert[];
+  // The account the result reflects; renderers label paper results
+  tradingMode?: TradingMode;
+}
+
+export function notice(code: string, message: string): ResponseView {
+  return { kind: 'notice', code, message };
+}
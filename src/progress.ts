@@ -0,0 +1,31 @@
+import { CommandPlan } from './types.js';
+import { AgentAnalysis, ConsensusResult } from './consensus.js';
+import { Exposure, RiskBreach } from './exposure.js';
+import { PendingActionKind } from './PendingConfirmationStore.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:progress' });
+
+export type SwarmAgentKey = keyof AgentAnalysis;
+
+// Intermediate steps of a command, reported as they complete so a client can show
+// agents arriving one by one. The final response is not a progress event.
+export type ProgressEvent =
+  | { type: 'parse'; plan: CommandPlan }
+  | { type: 'agent'; agent: SwarmAgentKey; available: boolean; report?: AgentAnalysis[SwarmAgentKey] }
+  | { type: 'consensus'; symbol: string; consensus: ConsensusResult }
+  | { type: 'risk'; symbol: string; approved: boolean; breaches: RiskBreach[]; exposure?: Exposure }
+  | { type: 'confirmation'; kind: PendingActionKind; confirmationToken: string; expiresAt: string };
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+// A listener that throws (a client that went away mid-stream) must not fail the command
+export function notify(listener: ProgressListener | undefined, event: ProgressEvent): void {
+  if (!listener) return;
+
+  try {
+    listener(event);
+  } catch (error) {
+    logger.warn({ type: event.type, error: error instanceof Error ? error.message : error }, 'Progress listener failed');
+  }
+}
@@ -0,0 +1,128 @@
+import { ExtractedEntities, PortfolioSnapshot, RelativeSize } from './types.js';
+
+export interface SizingContext {
+  // Reference price per share: the order's limit/stop price or the last trade
+  price?: number;
+  // Null when the portfolio service could not be reached
+  portfolio: PortfolioSnapshot | null;
+  // Swarm-suggested size, used when the command names none
+  suggestedQuantity?: number;
+}
+
+export type QuantityResult =
+  | { ok: true; qty: number; notional?: number; basis: string }
+  | { ok: false; error: string };
+
+export function formatUsd(value: number): string {
+  return value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+export function formatSignedUsd(value: number): string {
+  return `${value >= 0 ? '+' : '-'}${formatUsd(Math.abs(value))}`;
+}
+
+function describeShare(percent: number): string {
+  return percent === 100 ? 'all' : percent === 50 ? 'half' : `${percent}% of`;
+}
+
+// Whole shares only: a dollar or percent size rounds down so it never exceeds what was asked
+function sharesFor(dollars: number, price: number | undefined, symbol: string): QuantityResult | number {
+  if (price === undefined) {
+    return { ok: false, error: `There is no current price for ${symbol} to convert ${formatUsd(dollars)} into shares.` };
+  }
+
+  const qty = Math.floor(dollars / price);
+  if (qty < 1) {
+    return { ok: false, error: `${formatUsd(dollars)} does not buy a whole share of ${symbol} at ${formatUsd(price)}.` };
+  }
+  return qty;
+}
+
+function resolveRelative(size: RelativeSize, symbol: string, side: 'BUY' | 'SELL', context: SizingContext): QuantityResult {
+  const { portfolio, price } = context;
+  if (!portfolio) {
+    return { ok: false, error: `Your positions could not be loaded to size a trade from your ${size.of}. Give a share count or dollar amount instead.` };
+  }
+
+  if (size.of === 'position') {
+    const held = portfolio.positions.find(position => position.symbol === symbol)?.qty ?? 0;
+    if (held <= 0) {
+      return { ok: false, error: `You have no ${symbol} position to ${side === 'SELL' ? 'sell' : 'size from'}.` };
+    }
+
+    const qty = Math.floor(held * size.percent / 100);
+    if (qty < 1) {
+      return { ok: false, error: `${size.percent}% of your ${held} ${symbol} shares is less than one share.` };
+    }
+    return { ok: true, qty, notional: price !== undefined ? qty * price : undefined, basis: `${describeShare(size.percent)} your ${held} ${symbol} shares` };
+  }
+
+  const base = size.of === 'cash' ? portfolio.cash : portfolio.totalValue;
+  const dollars = base * size.percent / 100;
+  const qty = sharesFor(dollars, price, symbol);
+  if (typeof qty !== 'number') return qty;
+
+  return {
+    ok: true,
+    qty,
+    notional: qty * price!,
+    basis: `${describeShare(size.percent)} your ${formatUsd(base)} ${size.of === 'cash' ? 'cash' : 'portfolio'} at ${formatUsd(price!)}`
+  };
+}
+
+// Turns the size the user asked for into a whole number of shares
+export function resolveQuantity(entities: ExtractedEntities, side: 'BUY' | 'SELL', context: SizingContext): QuantityResult {
+  const symbol = entities.symbol!;
+  const { price, portfolio } = context;
+
+  if (entities.quantity !== undefined) {
+    if (entities.quantity <= 0 || !Number.isInteger(entities.quantity)) {
+      return { ok: false, error: `${entities.quantity} is not a whole number of shares.` };
+    }
+    return { ok: true, qty: entities.quantity, notional: price !== undefined ? entities.quantity * price : undefined, basis: 'the share count you gave' };
+  }
+
+  if (entities.amount !== undefined) {
+    const qty = sharesFor(entities.amount, price, symbol);
+    if (typeof qty !== 'number') return qty;
+    return { ok: true, qty, notional: qty * price!, basis: `${formatUsd(entities.amount)} at ${formatUsd(price!)}` };
+  }
+
+  if (entities.relativeSize) {
+    return resolveRelative(entities.relativeSize, symbol, side, context);
+  }
+
+  // No size given: take the swarm's suggestion. A sell only ever trims a held
+  // position, so without one there is nothing to size it from.
+  let qty = Math.max(1, context.suggestedQuantity || 1);
+  if (side === 'SELL') {
+    if (!portfolio) {
+      return { ok: false, error: `Your positions could not be loaded to size a sale of ${symbol}. Give a share count instead.` };
+    }
+    const held = portfolio.positions.find(position => position.symbol === symbol)?.qty ?? 0;
+    if (held <= 0) {
+      return { ok: false, error: `You hold no ${symbol} to sell.` };
+    }
+    qty = Math.min(qty, held);
+  }
+
+  return { ok: true, qty, notional: price !== undefined ? qty * price : undefined, basis: "the swarm's suggested size" };
+}
+
+// How the user phrased the size, for confirmations shown before it is resolved
+export function describeTradeSize(entities: ExtractedEntities, side: 'BUY' | 'SELL'): string {
+  const { symbol, amount, quantity, relativeSize } = entities;
+
+  if (amount !== undefined) {
+    return `$${amount}${side === 'SELL' ? ' worth' : ''} of ${symbol}`;
+  }
+  if (quantity !== undefined) {
+    return `${quantity} shares of ${symbol}`;
+  }
+  if (relativeSize) {
+    return relativeSize.of === 'position'
+      ? `${describeShare(relativeSize.percent)} your ${symbol} shares`
+      : `${describeShare(relativeSize.percent)} your ${relativeSize.of} in ${symbol}`;
+  }
+  return `a swarm-sized position in ${symbol}`;
+}
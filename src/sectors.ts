@@ -0,0 +1,38 @@
+// GICS sector names with the ways users and data vendors tend to write them
+const SECTOR_ALIASES: Record<string, string[]> = {
+  'Technology': ['technology', 'information technology', 'tech', 'it', 'software', 'semiconductors', 'semis'],
+  'Communication Services': ['communication services', 'communications', 'communication', 'telecom', 'media'],
+  'Consumer Discretionary': ['consumer discretionary', 'discretionary', 'consumer cyclical', 'retail'],
+  'Consumer Staples': ['consumer staples', 'staples', 'consumer defensive'],
+  'Energy': ['energy', 'oil', 'oil and gas'],
+  'Financials': ['financials', 'financial services', 'financial', 'finance', 'banks', 'banking'],
+  'Health Care': ['health care', 'healthcare', 'health', 'pharma', 'biotech'],
+  'Industrials': ['industrials', 'industrial'],
+  'Materials': ['materials', 'basic materials'],
+  'Real Estate': ['real estate', 'reits', 'reit'],
+  'Utilities': ['utilities', 'utility']
+};
+
+const ALIAS_LOOKUP = new Map(
+  Object.entries(SECTOR_ALIASES).flatMap(([sector, aliases]) => aliases.map(alias => [alias, sector] as const))
+);
+
+// Too common in ordinary sentences ("how is it doing", "portfolio health") to find in free text
+const AMBIGUOUS_ALIASES = new Set(['it', 'health']);
+
+// Longest aliases first so "consumer staples" wins over a shorter overlapping alias
+const ALIAS_PATTERN = new RegExp(
+  `\\b(${[...ALIAS_LOOKUP.keys()].filter(alias => !AMBIGUOUS_ALIASES.has(alias)).sort((a, b) => b.length - a.length).join('|')})\\b`
+);
+
+// Canonical sector name, or the input trimmed when it is not a known alias
+export function normalizeSector(name: string): string {
+  const trimmed = name.trim();
+  return ALIAS_LOOKUP.get(trimmed.toLowerCase()) || trimmed;
+}
+
+// Finds a sector mentioned in lower-cased free text, e.g. "status of my tech positions"
+export function findSector(text: string): string | undefined {
+  const match = text.match(ALIAS_PATTERN);
+  return match ? ALIAS_LOOKUP.get(match[1]) : undefined;
+}
@@ -0,0 +1,67 @@
+import type { ServerResponse } from 'http';
+import { CommandAgent, ProcessOptions } from './CommandAgent.js';
+import { CommandRequest } from './types.js';
+import { RateLimitError, sendRateLimited } from './RateLimiter.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:sse' });
+
+// Proxies drop idle connections; a comment line keeps the stream open while agents think
+const HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS || 15000);
+
+function writeEvent(res: ServerResponse, event: string, data: unknown): void {
+  if (res.writableEnded || res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Runs a command with each progress step sent as its own event (parse, agent,
+// consensus, risk, confirmation), then the full CommandResponse as `result` — the
+// same body /command returns. Failures end the stream with an `error` event. The
+// stream opens on the first event, so a rate-limited request still gets a plain 429.
+export async function streamCommand(
+  agent: CommandAgent,
+  body: unknown,
+  res: ServerResponse,
+  options: Omit<ProcessOptions, 'onProgress'> = {}
+): Promise<void> {
+  let heartbeat: NodeJS.Timeout | undefined;
+  const open = () => {
+    if (heartbeat || res.headersSent) return;
+    res.writeHead(200, {
+      'content-type': 'text/event-stream',
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+      'x-accel-buffering': 'no'
+    });
+    heartbeat = setInterval(() => {
+      if (!res.writableEnded && !res.destroyed) res.write(': keep-alive\n\n');
+    }, HEARTBEAT_MS);
+  };
+  const send = (event: string, data: unknown) => {
+    open();
+    writeEvent(res, event, data);
+  };
+
+  try {
+    const request = CommandRequest.parse(body);
+    const result = await agent.processCommand(request, {
+      ...options,
+      onProgress: (event) => send(event.type, event)
+    });
+    send('result', result);
+  } catch (error) {
+    if (error instanceof RateLimitError && !res.headersSent) {
+      sendRateLimited(res, error);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    logger.error({ error: message }, 'Streaming command failed');
+    send('error', error instanceof RateLimitError
+      ? { error: 'rate_limited', scope: error.scope, message, retryAfterSeconds: error.retryAfterSeconds }
+      : { error: 'internal_error', message });
+  } finally {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) res.end();
+  }
+}
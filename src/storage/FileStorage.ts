@@ -0,0 +1,48 @@
+import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { MemoryStorage, StoredEntry } from './MemoryStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:storage' });
+
+// Keeps everything in memory and rewrites one JSON file after each change, through a
+// temporary file so a crash mid-write leaves the previous copy intact. Suits a single
+// long-running process; replicas sharing state need the redis backend.
+export class FileStorage extends MemoryStorage {
+  readonly name = 'file';
+  readonly file: string;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(file: string) {
+    super();
+    this.file = file;
+
+    if (existsSync(file)) {
+      const saved: Record<string, StoredEntry> = JSON.parse(readFileSync(file, 'utf8'));
+      this.entries = new Map(Object.entries(saved));
+      this.sweep();
+      logger.info({ file, keys: this.entries.size }, 'Storage loaded');
+    } else {
+      mkdirSync(dirname(file), { recursive: true });
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.saving;
+  }
+
+  // Writes are chained so they land in order and never interleave
+  protected async changed(): Promise<void> {
+    await super.changed();
+    const snapshot = JSON.stringify(Object.fromEntries(this.entries));
+    this.saving = this.saving.then(async () => {
+      const temp = `${this.file}.tmp`;
+      await writeFile(temp, snapshot, 'utf8');
+      await rename(temp, this.file);
+    }).catch(error => {
+      logger.error({ file: this.file, error: error instanceof Error ? error.message : error }, 'Failed to save storage');
+    });
+    await this.saving;
+  }
+}
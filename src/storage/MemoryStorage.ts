@@ -0,0 +1,86 @@
+import { Storage } from './Storage.js';
+
+export interface StoredEntry {
+  // JSON text, or a list of JSON texts; stored serialized so callers never share objects
+  value: string | string[];
+  expiresAt?: number;
+}
+
+// Expired entries are dropped when read and swept once this many writes have passed
+const SWEEP_EVERY_WRITES = 500;
+
+export class MemoryStorage implements Storage {
+  readonly name: string = 'memory';
+  protected entries: Map<string, StoredEntry> = new Map();
+  private writes = 0;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.read(key);
+    return entry && typeof entry.value === 'string' ? JSON.parse(entry.value) : undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, { value: JSON.stringify(value), expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+    await this.changed();
+  }
+
+  async delete(key: string): Promise<void> {
+    if (this.entries.delete(key)) {
+      await this.changed();
+    }
+  }
+
+  // Read and deleted before yielding, so a concurrent take finds nothing
+  async take<T>(key: string): Promise<T | undefined> {
+    const entry = this.read(key);
+    if (!entry || typeof entry.value !== 'string') {
+      return undefined;
+    }
+    this.entries.delete(key);
+    await this.changed();
+    return JSON.parse(entry.value);
+  }
+
+  async append<T>(key: string, value: T, maxLength: number, ttlMs?: number): Promise<void> {
+    const entry = this.read(key);
+    const list = entry && Array.isArray(entry.value) ? entry.value : [];
+    list.push(JSON.stringify(value));
+
+    this.entries.set(key, {
+      value: list.slice(-maxLength),
+      expiresAt: ttlMs ? Date.now() + ttlMs : entry?.expiresAt
+    });
+    await this.changed();
+  }
+
+  async range<T>(key: string, limit: number): Promise<T[]> {
+    const entry = this.read(key);
+    return entry && Array.isArray(entry.value) ? entry.value.slice(-limit).map(item => JSON.parse(item)) : [];
+  }
+
+  async close(): Promise<void> {}
+
+  // Called after every write; persistent subclasses save here
+  protected async changed(): Promise<void> {
+    if (++this.writes % SWEEP_EVERY_WRITES === 0) {
+      this.sweep();
+    }
+  }
+
+  protected sweep(now: number = Date.now()): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private read(key: string): StoredEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,279 @@
+import net, { Socket } from 'net';
+import tls from 'tls';
+import { Storage } from './Storage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:storage' });
+
+class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+// Errors inside a transaction's EXEC reply stay in place, one per failed command
+type Reply = string | number | null | RedisReplyError | Reply[];
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+}
+
+// Parses one RESP2 reply starting at `offset`, or returns undefined when the buffer
+// does not hold all of it yet
+function parseReply(buffer: Buffer, offset: number): { value: Reply; next: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return undefined;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new RedisReplyError(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + 2) return undefined;
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next };
+      const items: Reply[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, cursor);
+        if (!item) return undefined;
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type '${type}'`);
+  }
+}
+
+interface PendingReply {
+  resolve: (value: Reply) => void;
+  reject: (error: Error) => void;
+}
+
+// Speaks the Redis protocol directly over one pipelined connection, so it works
+// against Redis or anything wire-compatible (Valkey, KeyDB, Dragonfly) without a
+// client library. The connection opens on first use and reopens after a failure.
+export class RedisStorage implements Storage {
+  readonly name = 'redis';
+  private url: URL;
+  private keyPrefix: string;
+  private timeoutMs: number;
+  private socket?: Socket;
+  private connecting?: Promise<Socket>;
+  private pending: PendingReply[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(options: { url: string; keyPrefix: string; timeoutMs: number }) {
+    this.url = new URL(options.url);
+    this.keyPrefix = options.keyPrefix;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.command(['GET', this.keyPrefix + key]);
+    return typeof value === 'string' ? JSON.parse(value) : undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const args = ['SET', this.keyPrefix + key, JSON.stringify(value)];
+    await this.command(ttlMs ? [...args, 'PX', String(Math.ceil(ttlMs))] : args);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(['DEL', this.keyPrefix + key]);
+  }
+
+  // MULTI rather than GETDEL, which older servers and some compatibles lack
+  async take<T>(key: string): Promise<T | undefined> {
+    const [value] = await this.transaction([['GET', this.keyPrefix + key], ['DEL', this.keyPrefix + key]]);
+    return typeof value === 'string' ? JSON.parse(value) : undefined;
+  }
+
+  async append<T>(key: string, value: T, maxLength: number, ttlMs?: number): Promise<void> {
+    const fullKey = this.keyPrefix + key;
+    const commands = [
+      ['RPUSH', fullKey, JSON.stringify(value)],
+      ['LTRIM', fullKey, String(-maxLength), '-1']
+    ];
+    if (ttlMs) {
+      commands.push(['PEXPIRE', fullKey, String(Math.ceil(ttlMs))]);
+    }
+    await this.transaction(commands);
+  }
+
+  async range<T>(key: string, limit: number): Promise<T[]> {
+    const items = await this.command(['LRANGE', this.keyPrefix + key, String(-limit), '-1']);
+    return Array.isArray(items) ? items.map(item => JSON.parse(String(item))) : [];
+  }
+
+  // Untrimmed appends and reads by position, for logs that only ever grow: RPUSH
+  // costs the same however long the list is, unlike a rewrite of the whole value
+  async push<T>(key: string, value: T): Promise<number> {
+    return Number(await this.command(['RPUSH', this.keyPrefix + key, JSON.stringify(value)]));
+  }
+
+  // Entries start to stop inclusive, counted from 0 at the oldest
+  async slice<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const items = await this.command(['LRANGE', this.keyPrefix + key, String(start), String(stop)]);
+    return Array.isArray(items) ? items.map(item => JSON.parse(String(item))) : [];
+  }
+
+  async close(): Promise<void> {
+    this.socket?.end();
+    this.socket = undefined;
+  }
+
+  private async transaction(commands: string[][]): Promise<Reply[]> {
+    const socket = await this.connection();
+    const replies = [['MULTI'], ...commands, ['EXEC']].map(args => this.send(socket, args));
+    const results = await this.withTimeout(socket, Promise.all(replies));
+    const exec = results[results.length - 1];
+    if (!Array.isArray(exec)) {
+      throw new Error('Redis transaction was aborted');
+    }
+    const failed = exec.find(reply => reply instanceof RedisReplyError);
+    if (failed) {
+      throw failed;
+    }
+    return exec;
+  }
+
+  private async command(args: string[]): Promise<Reply> {
+    const socket = await this.connection();
+    return await this.withTimeout(socket, this.send(socket, args));
+  }
+
+  // Replies arrive in order, so a late one cannot be matched to the right caller once
+  // its caller gave up; dropping the connection resets the stream
+  private async withTimeout<T>(socket: Socket, reply: Promise<T>): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        socket.destroy(new Error(`Redis did not answer within ${this.timeoutMs} ms`));
+        reject(new Error(`Redis did not answer within ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([reply, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private send(socket: Socket, args: string[]): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connection(): Promise<Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+    this.connecting ??= this.open().finally(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const secure = this.url.protocol === 'rediss:';
+    const host = this.url.hostname || 'localhost';
+    const port = Number(this.url.port || 6379);
+
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const candidate: Socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      const timer = setTimeout(() => candidate.destroy(new Error(`Could not reach Redis at ${host}:${port}`)), this.timeoutMs);
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      };
+      candidate.once('error', fail);
+      candidate.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        candidate.off('error', fail);
+        resolve(candidate);
+      });
+    });
+
+    // Idle connections must not keep a CLI or test process alive
+    socket.unref();
+    socket.setKeepAlive(true);
+    socket.on('data', chunk => this.receive(chunk));
+    socket.on('error', error => logger.warn({ error: error.message }, 'Redis connection error'));
+    socket.on('close', () => this.reset(socket, new Error('Redis connection closed')));
+
+    const username = decodeURIComponent(this.url.username);
+    const password = decodeURIComponent(this.url.password);
+    const db = this.url.pathname.slice(1);
+    // A refused AUTH or SELECT leaves a connection no caller will use; close it
+    try {
+      if (password) {
+        await this.withTimeout(socket, this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]));
+      }
+      if (db) {
+        await this.withTimeout(socket, this.send(socket, ['SELECT', db]));
+      }
+    } catch (error) {
+      socket.destroy();
+      throw error;
+    }
+
+    this.socket = socket;
+    logger.info({ host, port, db: db || '0' }, 'Connected to Redis');
+    return socket;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply: ReturnType<typeof parseReply>;
+      try {
+        reply = parseReply(this.buffer, offset);
+      } catch (error) {
+        // Out of sync with the server; start over on a fresh connection
+        this.socket?.destroy(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      if (!reply) break;
+      offset = reply.next;
+
+      const waiting = this.pending.shift();
+      if (reply.value instanceof RedisReplyError) {
+        waiting?.reject(reply.value);
+      } else {
+        waiting?.resolve(reply.value);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private reset(socket: Socket, error: Error): void {
+    if (this.socket === socket) {
+      this.socket = undefined;
+    }
+    this.buffer = Buffer.alloc(0);
+    for (const waiting of this.pending.splice(0)) {
+      waiting.reject(error);
+    }
+  }
+}
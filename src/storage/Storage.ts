@@ -0,0 +1,41 @@
+// Key-value storage with expiry and capped lists, enough for sessions, history, orders,
+// pending confirmations and settings. Values are JSON; every backend serializes them
+// the same way so a deployment can switch backends without migrating shapes.
+export interface Storage {
+  readonly name: string;
+  get<T>(key: string): Promise<T | undefined>;
+  // Without ttlMs the value is kept until deleted
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Reads and deletes in one step, so two replicas can never both consume a value
+  take<T>(key: string): Promise<T | undefined>;
+  // Appends to a list trimmed to its newest maxLength entries; ttlMs restarts the
+  // whole list's expiry
+  append<T>(key: string, value: T, maxLength: number, ttlMs?: number): Promise<void>;
+  // The newest `limit` entries of a list, oldest first
+  range<T>(key: string, limit: number): Promise<T[]>;
+  close(): Promise<void>;
+}
+
+export type StorageBackend = 'memory' | 'file' | 'redis';
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  file: string;
+  redisUrl: string;
+  // Namespaces keys on a shared Redis
+  keyPrefix: string;
+  timeoutMs: number;
+}
+
+// Memory loses everything on restart and is per-process, which on Vercel means per
+// function; file survives restarts on one host; redis is shared between replicas.
+export function loadStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  return {
+    backend: (env.STORAGE_BACKEND || 'memory') as StorageBackend,
+    file: env.STORAGE_FILE || 'data/command-agent.json',
+    redisUrl: env.REDIS_URL || 'redis://localhost:6379',
+    keyPrefix: env.STORAGE_KEY_PREFIX ?? 'command-agent:',
+    timeoutMs: Number(env.STORAGE_TIMEOUT_MS || 2000)
+  };
+}
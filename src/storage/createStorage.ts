@@ -0,0 +1,36 @@
+import { Storage, StorageConfig, loadStorageConfig } from './Storage.js';
+import { MemoryStorage } from './MemoryStorage.js';
+import { FileStorage } from './FileStorage.js';
+import { RedisStorage } from './RedisStorage.js';
+import pino from 'pino';
+
+const logger = pino({ name: '@swarm/command-agent:storage' });
+
+export function createStorage(config: StorageConfig): Storage {
+  switch (config.backend) {
+    case 'memory':
+      return new MemoryStorage();
+
+    case 'file':
+      return new FileStorage(config.file);
+
+    case 'redis':
+      return new RedisStorage({ url: config.redisUrl, keyPrefix: config.keyPrefix, timeoutMs: config.timeoutMs });
+
+    default:
+      logger.warn({ backend: config.backend }, 'Unknown storage backend; keeping state in memory');
+      return new MemoryStorage();
+  }
+}
+
+let shared: Storage | undefined;
+
+// One storage per process: two file backends on the same file would overwrite each
+// other, and every component should see the same sessions and settings
+export function getStorage(): Storage {
+  if (!shared) {
+    shared = createStorage(loadStorageConfig());
+    logger.info({ backend: shared.name }, 'Storage ready');
+  }
+  return shared;
+}
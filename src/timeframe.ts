@@ -0,0 +1,23 @@
+const UNIT_MS: Record<string, number> = {
+  min: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  // 'm' is a month here, matching the '1d' / '1w' / '1m' timeframes the parser emits
+  m: 30 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000
+};
+
+// Parses timeframes like '1d', '2w', '3m', '4h' or '15min' into milliseconds
+export function parseTimeframe(timeframe: string | undefined): number | undefined {
+  if (!timeframe) return undefined;
+
+  const match = timeframe.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(min|h|d|w|m|y)$/);
+  if (!match) return undefined;
+
+  return Number(match[1]) * UNIT_MS[match[2]];
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
@@ -9,19 +9,90 @@ export const CommandIntentType = z.enum([
   'ANALYZE',
   'CONFIG',
   'STOP',
-  'STATUS'
+  'STATUS',
+  'ORDERS',
+  'RESUME',
+  'HISTORY'
 ]);
 
 export type CommandIntentType = z.infer<typeof CommandIntentType>;
 
+// Alert Condition Schema
+export const AlertCondition = z.object({
+  type: z.enum(['above', 'below', 'crosses', 'percent_move']),
+  price: z.number().optional().describe('Trigger level for above/below/crosses'),
+  percent: z.number().positive().optional().describe('Size of the move for percent_move'),
+  direction: z.enum(['up', 'down', 'either']).optional().describe('Direction of the move for percent_move'),
+  timeframe: z.string().optional().describe("Window for percent_move, like '1d' or '1w'")
+});
+
+export type AlertCondition = z.infer<typeof AlertCondition>;
+
+// Order Type Schema
+export const OrderType = z.enum(['MARKET', 'LIMIT', 'STOP', 'STOP_LIMIT', 'TRAILING_STOP']);
+
+export type OrderType = z.infer<typeof OrderType>;
+
+export const TimeInForce = z.enum(['DAY', 'GTC', 'IOC']);
+
+export type TimeInForce = z.infer<typeof TimeInForce>;
+
+// Which account orders go to and positions come from: the real one or the paper ledger
+export const TradingMode = z.enum(['live', 'paper']);
+
+export type TradingMode = z.infer<typeof TradingMode>;
+
+// Relative Trade Size Schema
+export const RelativeSize = z.object({
+  percent: z.number().positive().max(100).describe('Percent of the basis, e.g. 50 for "half", 100 for "all"'),
+  of: z.enum(['position', 'portfolio', 'cash']).describe('What the percent applies to: the held position in the symbol, total portfolio value, or cash')
+});
+
+export type RelativeSize = z.infer<typeof RelativeSize>;
+
+// User Settings Schema; every key a CONFIG command may change, with its default
+export const UserSettings = z.object({
+  maxPositionValue: z.number().positive().default(10000).describe('Largest single order in USD'),
+  maxGrossExposure: z.number().positive().default(100000).describe('Largest total gross exposure in USD'),
+  confirmationThreshold: z.number().min(0).default(0).describe('Trades above this notional in USD need confirmation; 0 confirms every trade'),
+  personaMode: z.boolean().default(true).describe('Answer in the agent personas rather than plain text'),
+  paperTrading: z.boolean().default(false).describe('Trade a simulated paper account instead of the live one')
+});
+
+export type UserSettings = z.infer<typeof UserSettings>;
+
+export const UserSettingKey = UserSettings.keyof();
+
+export type UserSettingKey = z.infer<typeof UserSettingKey>;
+
+export const SettingUpdate = z.object({
+  key: UserSettingKey,
+  value: z.union([z.number(), z.boolean()])
+});
+
+export type SettingUpdate = z.infer<typeof SettingUpdate>;
+
 // Entity Extraction Schema
 export const ExtractedEntities = z.object({
-  symbol: z.string().optional(),
-  amount: z.number().optional(),
-  price: z.number().optional(),
-  quantity: z.number().optional(),
-  timeframe: z.string().optional(),
-  condition: z.string().optional()
+  symbol: z.string().optional().describe('Ticker symbol in upper case, e.g. AAPL'),
+  amount: z.number().optional().describe('Dollar amount in USD'),
+  price: z.number().optional().describe('Price per share; for trades, a limit price when orderType is not given'),
+  quantity: z.number().optional().describe('Number of shares'),
+  relativeSize: RelativeSize.optional().describe('Trade size relative to holdings, e.g. "half my TSLA" or "10% of my portfolio"; use instead of quantity or amount'),
+  orderType: OrderType.optional().describe('Order type for trades; MARKET when no price is given'),
+  limitPrice: z.number().positive().optional().describe('Limit price for LIMIT and STOP_LIMIT orders'),
+  stopPrice: z.number().positive().optional().describe('Trigger price for STOP and STOP_LIMIT orders'),
+  trailAmount: z.number().positive().optional().describe('Trailing distance in dollars for TRAILING_STOP orders'),
+  trailPercent: z.number().positive().max(100).optional().describe('Trailing distance in percent for TRAILING_STOP orders'),
+  timeInForce: TimeInForce.optional().describe('DAY (default), GTC (good til cancelled) or IOC (immediate or cancel)'),
+  sector: z.string().optional().describe("Sector filter for STATUS and ANALYZE, e.g. 'Technology' for \"my tech positions\""),
+  timeframe: z.string().optional().describe("Period like '1d', '1w', '1m' (month), '1y'"),
+  condition: AlertCondition.optional().describe('Price condition for alerts'),
+  expiresIn: z.string().optional().describe("How long an alert stays active, like '1d' or '2w'"),
+  action: z.enum(['create', 'list', 'cancel']).optional().describe('Whether an ALERT or ORDERS command creates, lists or cancels; list for CONFIG shows the settings'),
+  setting: SettingUpdate.optional().describe('The setting a CONFIG command changes, e.g. {key: "maxPositionValue", value: 5000}'),
+  scope: z.enum(['user', 'global']).optional().describe('Whether STOP/RESUME applies to the user or to everyone'),
+  count: z.number().int().positive().optional().describe('How many past commands a HISTORY command lists, e.g. 5 for "my last 5 commands"')
 });
 
 export type ExtractedEntities = z.infer<typeof ExtractedEntities>;
@@ -31,28 +102,384 @@ export const ParsedCommand = z.object({
   intent: CommandIntentType,
   entities: ExtractedEntities,
   originalText: z.string(),
-  confidence: z.number().min(0).max(1),
-  needsConfirmation: z.boolean().default(false)
+  confidence: z.number().min(0).max(1).describe('How sure the parse is, between 0 and 1'),
+  needsConfirmation: z.boolean().default(false).describe('True for high-impact actions such as trades')
 });
 
 export type ParsedCommand = z.infer<typeof ParsedCommand>;
 
+// What the model fills in; originalText is always the user's own text
+export const ParsedCommandToolInput = ParsedCommand.omit({ originalText: true });
+
+export type ParsedCommandToolInput = z.infer<typeof ParsedCommandToolInput>;
+
+// Compound Command Plan Schema
+export const AmountSource = z.object({
+  step: z.string().describe('Id of the earlier trade whose proceeds (SELL) or cost (BUY) fund this step'),
+  fraction: z.number().positive().max(1).default(1).describe('Share of that amount to use, 1 for all of it')
+});
+
+export type AmountSource = z.infer<typeof AmountSource>;
+
+export const PlanStepToolInput = ParsedCommandToolInput.extend({
+  id: z.string().describe("Step id, e.g. 's1'"),
+  dependsOn: z.array(z.string()).default([]).describe('Ids of earlier steps that must succeed first'),
+  amountFrom: AmountSource.optional().describe("Derive this step's dollar amount from an earlier trade")
+});
+
+export type PlanStepToolInput = z.infer<typeof PlanStepToolInput>;
+
+// Steps run in order, so a step may only depend on the ones before it
+export const CommandPlanToolInput = z.object({
+  steps: z.array(PlanStepToolInput).min(1).describe('Commands in execution order; usually exactly one')
+}).superRefine((plan, ctx) => {
+  const seen = new Set<string>();
+  plan.steps.forEach((step, index) => {
+    if (seen.has(step.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'id'], message: `Duplicate step id ${step.id}` });
+    }
+    for (const dependency of [...step.dependsOn, ...(step.amountFrom ? [step.amountFrom.step] : [])]) {
+      if (!seen.has(dependency)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['steps', index, 'dependsOn'], message: `Step ${step.id} depends on ${dependency}, which does not run before it` });
+      }
+    }
+    seen.add(step.id);
+  });
+});
+
+export type CommandPlanToolInput = z.infer<typeof CommandPlanToolInput>;
+
+export const PlanStep = z.object({
+  id: z.string(),
+  command: ParsedCommand,
+  dependsOn: z.array(z.string()),
+  amountFrom: AmountSource.optional()
+});
+
+export type PlanStep = z.infer<typeof PlanStep>;
+
+export const CommandPlan = z.object({
+  originalText: z.string(),
+  steps: z.array(PlanStep).min(1)
+});
+
+export type CommandPlan = z.infer<typeof CommandPlan>;
+
+// Validated order parameters, see resolveOrderSpec
+export const OrderSpec = z.object({
+  orderType: OrderType,
+  limitPrice: z.number().optional(),
+  stopPrice: z.number().optional(),
+  trailAmount: z.number().optional(),
+  trailPercent: z.number().optional(),
+  timeInForce: TimeInForce
+});
+
+export type OrderSpec = z.infer<typeof OrderSpec>;
+
+// Swarm Consensus Policy Schema
+export const ConsensusAgent = z.enum(['marketData', 'sentiment', 'technical', 'risk']);
+
+export type ConsensusAgent = z.infer<typeof ConsensusAgent>;
+
+export const AgentPolicy = z.object({
+  weight: z.number().min(0).default(1),
+  // A veto agent voting against blocks the trade whatever the weighted score
+  veto: z.boolean().default(false)
+});
+
+export type AgentPolicy = z.infer<typeof AgentPolicy>;
+
+export const IntentConsensusRule = z.object({
+  threshold: z.number().min(0).max(1).describe('Weighted share of votes in favour needed to proceed'),
+  minQuorum: z.number().int().min(1).describe('Agents that must report before any decision is made'),
+  weights: z.record(ConsensusAgent, z.number().min(0)).default({}).describe('Per-intent weights, replacing the agent defaults'),
+  riskMaxScore: z.number().min(0).max(10),
+  sentimentBullish: z.number().min(0).max(1),
+  sentimentBearish: z.number().min(0).max(1),
+  rsiOverbought: z.number().min(0).max(100),
+  rsiOversold: z.number().min(0).max(100)
+});
+
+export type IntentConsensusRule = z.infer<typeof IntentConsensusRule>;
+
+export const ConsensusPolicy = z.object({
+  version: z.string(),
+  agents: z.record(ConsensusAgent, AgentPolicy),
+  intents: z.object({
+    BUY: IntentConsensusRule,
+    SELL: IntentConsensusRule
+  })
+});
+
+export type ConsensusPolicy = z.infer<typeof ConsensusPolicy>;
+
+// Per-user overrides name only the fields they change
+export const ConsensusPolicyOverride = ConsensusPolicy.deepPartial();
+
+export type ConsensusPolicyOverride = z.infer<typeof ConsensusPolicyOverride>;
+
+// Order Lifecycle Schema
+export const OrderStatus = z.enum([
+  'SUBMITTED',
+  'PARTIALLY_FILLED',
+  'FILLED',
+  'REJECTED',
+  'CANCELLED'
+]);
+
+export type OrderStatus = z.infer<typeof OrderStatus>;
+
+export const Order = z.object({
+  orderId: z.string(),
+  userId: z.string(),
+  symbol: z.string(),
+  side: z.enum(['BUY', 'SELL']),
+  qty: z.number(),
+  filledQty: z.number().default(0),
+  avgFillPrice: z.number().optional(),
+  orderType: OrderType,
+  limitPrice: z.number().optional(),
+  stopPrice: z.number().optional(),
+  trailAmount: z.number().optional(),
+  trailPercent: z.number().optional(),
+  timeInForce: TimeInForce,
+  status: OrderStatus,
+  rejectReason: z.string().optional(),
+  submittedAt: z.string(),
+  updatedAt: z.string(),
+  // Unset on orders recorded before paper trading existed, which were all live
+  tradingMode: TradingMode.optional(),
+  // Simulated commission on paper fills
+  commission: z.number().optional()
+});
+
+export type Order = z.infer<typeof Order>;
+
+// Portfolio Schema
+export const Position = z.object({
+  symbol: z.string(),
+  qty: z.number(),
+  avgCost: z.number().optional(),
+  marketPrice: z.number().optional(),
+  marketValue: z.number().optional(),
+  sector: z.string().optional(),
+  unrealizedPnl: z.number().optional(),
+  dailyPnl: z.number().optional()
+});
+
+export type Position = z.infer<typeof Position>;
+
+export const PortfolioSnapshot = z.object({
+  userId: z.string(),
+  positions: z.array(Position),
+  cash: z.number(),
+  totalValue: z.number(),
+  dailyPnl: z.number().optional(),
+  asOf: z.string()
+});
+
+export type PortfolioSnapshot = z.infer<typeof PortfolioSnapshot>;
+
+// Price Alert Schema
+export const AlertStatus = z.enum(['ACTIVE', 'TRIGGERED', 'CANCELLED', 'EXPIRED']);
+
+export type AlertStatus = z.infer<typeof AlertStatus>;
+
+export const Alert = z.object({
+  alertId: z.string(),
+  userId: z.string(),
+  symbol: z.string(),
+  condition: AlertCondition,
+  status: AlertStatus,
+  createdAt: z.string(),
+  expiresAt: z.string().optional(),
+  referencePrice: z.number().optional(),
+  lastPrice: z.number().optional(),
+  triggeredAt: z.string().optional(),
+  triggeredPrice: z.number().optional()
+});
+
+export type Alert = z.infer<typeof Alert>;
+
+// How a response is presented: persona markdown, a plain summary, or the structured
+// result alone for API consumers
+export const OutputMode = z.enum(['persona', 'plain', 'json']);
+
+export type OutputMode = z.infer<typeof OutputMode>;
+
+// Persona copy loaded from a data file; messages are `{placeholder}` templates
+export const PersonaTemplates = z.object({
+  locale: z.string(),
+  agents: z.record(z.object({
+    name: z.string(),
+    emoji: z.string(),
+    role: z.string()
+  })),
+  messages: z.record(z.string())
+});
+
+export type PersonaTemplates = z.infer<typeof PersonaTemplates>;
+
 // Command Response Schema
 export const CommandResponse = z.object({
   success: z.boolean(),
   message: z.string(),
   data: z.any().optional(),
-  followUp: z.string().optional()
+  followUp: z.string().optional(),
+  mode: OutputMode.optional(),
+  // Ties the response to its audit records
+  correlationId: z.string().optional(),
+  // Whether the response reflects the paper ledger or the live account
+  tradingMode: TradingMode,
+  // The structured result the message was rendered from
+  result: z.any().optional()
 });
 
 export type CommandResponse = z.infer<typeof CommandResponse>;
 
+// Roles ranked from least to most privileged; each one may do everything below it
+export const UserRole = z.enum(['viewer', 'trader', 'admin']);
+
+export type UserRole = z.infer<typeof UserRole>;
+
+// An entry in AUTH_API_KEYS. Only the SHA-256 of the key is configured, never the key.
+export const ApiKeyRecord = z.object({
+  keySha256: z.string().regex(/^[0-9a-f]{64}$/, 'Expected a lowercase hex SHA-256 digest'),
+  userId: z.string().min(1),
+  roles: z.array(UserRole).min(1)
+});
+
+export type ApiKeyRecord = z.infer<typeof ApiKeyRecord>;
+
+// Filters for the audit log endpoint, read from the query string
+export const AuditQuery = z.object({
+  userId: z.string().optional(),
+  symbol: z.string().optional(),
+  intent: CommandIntentType.optional(),
+  correlationId: z.string().optional(),
+  type: z.enum([
+    'command_received', 'command_parsed', 'agent_report', 'consensus',
+    'risk_check', 'confirmation_requested', 'confirmation_resolved', 'command_completed'
+  ]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().positive().max(10000).default(1000),
+  // From a previous page's nextCursor, for the matches older than that page
+  cursor: z.string().optional(),
+  format: z.enum(['json', 'jsonl', 'csv']).default('json')
+});
+
+export type AuditQuery = z.infer<typeof AuditQuery>;
+
+export const AuditVerifyQuery = z.object({
+  // From a previous verification's nextCursor, to carry on where it stopped
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(100000).default(10000)
+});
+
+export type AuditVerifyQuery = z.infer<typeof AuditVerifyQuery>;
+
 // Command Request Schema
 export const CommandRequest = z.object({
-  command: z.string(),
-  userId: z.string().optional(),
-  sessionId: z.string().optional(),
-  context: z.record(z.any()).optional()
+  command: z.string().describe('Natural language command'),
+  // Ignored by the servers, which take the user from the verified credentials
+  userId: z.string().optional().describe('User identifier; replaced by the authenticated user'),
+  sessionId: z.string().optional().describe('Session identifier'),
+  context: z.record(z.any()).optional().describe('Additional context, such as the confirmationToken being answered'),
+  // Overrides the user's persona setting for this request
+  outputMode: OutputMode.optional().describe('Response presentation; defaults to the user\'s persona setting')
+});
+
+export type CommandRequest = z.infer<typeof CommandRequest>;
+
+// Inputs and outputs of the MCP tools beside command-agent.process. As in
+// CommandRequest, userId is replaced by the authenticated user.
+export const ParseToolInput = z.object({
+  command: z.string().describe('Natural language command to parse'),
+  userId: z.string().optional().describe('User identifier; replaced by the authenticated user'),
+  sessionId: z.string().optional().describe('Session whose recent commands the parser may use as context')
+});
+
+export type ParseToolInput = z.infer<typeof ParseToolInput>;
+
+export const ParseToolOutput = z.object({
+  command: ParsedCommand.describe('The first command of the plan'),
+  plan: CommandPlan
+});
+
+export const AnalyzeSymbolToolInput = z.object({
+  symbol: z.string().min(1).transform(symbol => symbol.toUpperCase()).describe('Ticker to analyze'),
+  intent: z.enum(['BUY', 'SELL']).default('BUY').describe('Side the swarm weighs the symbol for'),
+  userId: z.string().optional().describe('User identifier; replaced by the authenticated user')
+});
+
+export type AnalyzeSymbolToolInput = z.infer<typeof AnalyzeSymbolToolInput>;
+
+export const AnalyzeSymbolToolOutput = z.object({
+  symbol: z.string(),
+  intent: z.enum(['BUY', 'SELL']),
+  analysis: z.record(z.any()).describe('Each swarm agent\'s report, keyed by agent; an agent that could not report is missing'),
+  consensus: z.object({
+    shouldProceed: z.boolean(),
+    decision: z.string(),
+    confidence: z.number(),
+    reason: z.string(),
+    suggestedQuantity: z.number(),
+    policyVersion: z.string()
+  }).passthrough()
+});
+
+export const ListAlertsToolInput = z.object({
+  symbol: z.string().optional().transform(symbol => symbol?.toUpperCase()).describe('Only alerts on this ticker'),
+  includeInactive: z.boolean().default(false).describe('Include triggered, cancelled and expired alerts'),
+  userId: z.string().optional().describe('User identifier; replaced by the authenticated user')
+});
+
+export type ListAlertsToolInput = z.infer<typeof ListAlertsToolInput>;
+
+export const ListAlertsToolOutput = z.object({
+  alerts: z.array(Alert)
+});
+
+export const ConfirmToolInput = z.object({
+  confirmationToken: z.string().describe('Token from the response that asked for confirmation'),
+  decision: z.enum(['confirm', 'reject']),
+  sessionId: z.string().optional().describe('Session the confirmation was requested in'),
+  userId: z.string().optional().describe('User identifier; replaced by the authenticated user')
+});
+
+export type ConfirmToolInput = z.infer<typeof ConfirmToolInput>;
+
+export const ExplainToolInput = z.object({
+  correlationId: z.string().describe('correlationId of the response to explain'),
+  userId: z.string().optional().describe('User identifier; replaced by the authenticated user')
+});
+
+export type ExplainToolInput = z.infer<typeof ExplainToolInput>;
+
+export const ExplainToolOutput = z.object({
+  correlationId: z.string(),
+  records: z.array(z.record(z.any())).describe('Audit records of the command in order: what was asked, parsed, reported, decided and confirmed')
+});
+
+// A JSON-RPC 2.0 request, or a notification when it has no id, as MCP clients send them
+export const JsonRpcRequest = z.object({
+  jsonrpc: z.literal('2.0'),
+  id: z.union([z.string(), z.number()]).optional(),
+  method: z.string(),
+  params: z.record(z.any()).optional()
+});
+
+export type JsonRpcRequest = z.infer<typeof JsonRpcRequest>;
+
+export const McpToolCallParams = z.object({
+  name: z.string(),
+  arguments: z.record(z.any()).optional(),
+  // A progress token asks for notifications/progress while the tool runs
+  _meta: z.object({
+    progressToken: z.union([z.string(), z.number()]).optional()
+  }).passthrough().optional()
 });
 
-export type CommandRequest = z.infer<typeof CommandRequest>;
\ No newline at end of file
+export type McpToolCallParams = z.infer<typeof McpToolCallParams>;
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AlertEngine, evaluateCondition } from '../src/AlertEngine.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { FakeMCPClient } from './support/FakeMCPClient.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions on Thursday, Friday and the following Monday
+const thursday = Date.parse('2026-10-15');
+const history = [
+  { time: thursday, close: 100 },
+  { time: thursday + DAY_MS, close: 104 },
+  { time: thursday + 4 * DAY_MS, close: 110 }
+];
+
+describe('evaluateCondition', () => {
+  it('measures a one-day move from the previous calendar day\'s close or earlier', () => {
+    // Monday against Friday: +5.8%
+    assert.equal(evaluateCondition({ type: 'percent_move', percent: 5, timeframe: '1d', direction: 'up' }, { price: 110, history }), true);
+    assert.equal(evaluateCondition({ type: 'percent_move', percent: 6, timeframe: '1d', direction: 'up' }, { price: 110, history }), false);
+  });
+
+  it('counts weekend days toward the window', () => {
+    // Four calendar days back from Monday is Thursday: +10%
+    assert.equal(evaluateCondition({ type: 'percent_move', percent: 10, timeframe: '4d' }, { price: 110, history }), true);
+  });
+
+  it('does not fire without history reaching back to the window start', () => {
+    assert.equal(evaluateCondition({ type: 'percent_move', percent: 1, timeframe: '1w' }, { price: 110, history }), false);
+  });
+
+  it('fires a cross only between two observations', () => {
+    assert.equal(evaluateCondition({ type: 'crosses', price: 105 }, { price: 106, history }), false);
+    assert.equal(evaluateCondition({ type: 'crosses', price: 105 }, { price: 106, history }, 104), true);
+  });
+});
+
+describe('AlertEngine', () => {
+  const bars = (close: number) => ({ rows: [{ date: new Date().toISOString().slice(0, 10), close }] });
+
+  it('keeps alerts in storage for every instance and restart', async () => {
+    const storage = new MemoryStorage();
+    const mcp = new FakeMCPClient().on('market-data.get_ohlcv', () => bars(100));
+    const alert = await new AlertEngine(mcp, storage).createAlert('alice', 'AAPL', { type: 'above', price: 120 });
+
+    const other = new AlertEngine(mcp, storage);
+    assert.deepEqual((await other.listAlerts('alice')).map(listed => listed.alertId), [alert.alertId]);
+    assert.deepEqual(await other.listAlerts('bob'), []);
+  });
+
+  it('fires once and delivers through any instance', async () => {
+    const storage = new MemoryStorage();
+    let price = 100;
+    const mcp = new FakeMCPClient().on('market-data.get_ohlcv', () => bars(price));
+    const monitor = new AlertEngine(mcp, storage);
+    await monitor.createAlert('alice', 'AAPL', { type: 'above', price: 120 });
+
+    assert.equal((await monitor.evaluateOnce()).length, 0);
+    price = 121;
+    assert.equal((await monitor.evaluateOnce()).length, 1);
+    assert.equal((await monitor.evaluateOnce()).length, 0);
+
+    const other = new AlertEngine(mcp, storage);
+    assert.equal((await other.drainTriggered('alice'))[0]?.triggeredPrice, 121);
+    assert.deepEqual(await other.drainTriggered('alice'), []);
+  });
+
+  it('cancels only the user\'s alerts', async () => {
+    const storage = new MemoryStorage();
+    const engine = new AlertEngine(new FakeMCPClient().on('market-data.get_ohlcv', () => bars(100)), storage);
+    await engine.createAlert('alice', 'AAPL', { type: 'above', price: 120 });
+    await engine.createAlert('bob', 'AAPL', { type: 'above', price: 120 });
+
+    assert.equal((await engine.cancelAlerts('alice')).length, 1);
+    assert.equal((await engine.listAlerts('alice')).length, 0);
+    assert.equal((await engine.listAlerts('bob')).length, 1);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { AuditLog, AuditCursorError } from '../src/audit/AuditLog.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { FileStorage } from '../src/storage/FileStorage.js';
+import { RedisStorage } from '../src/storage/RedisStorage.js';
+import { AuditQuery } from '../src/types.js';
+
+const all = AuditQuery.parse({});
+
+async function command(log: AuditLog, correlationId: string, userId: string, symbol: string): Promise<void> {
+  const trail = log.begin(correlationId, userId, 'default');
+  trail.record('command_received', { command: `buy 1 ${symbol}` });
+  trail.setSubject(['BUY'], [symbol]);
+  trail.record('command_completed', { success: true });
+  await trail.flush();
+  // Chains interleave by timestamp, which only resolves milliseconds
+  await sleep(2);
+}
+
+function tempFile(): string {
+  return join(mkdtempSync(join(tmpdir(), 'audit-')), 'audit.jsonl');
+}
+
+// Redis lists kept in memory, behind the same push and slice the audit log uses
+class FakeRedisStorage extends RedisStorage {
+  lists = new Map<string, string[]>();
+
+  constructor() {
+    super({ url: 'redis://redis.invalid', keyPrefix: '', timeoutMs: 100 });
+  }
+
+  async push<T>(key: string, value: T): Promise<number> {
+    const list = this.lists.get(key) || [];
+    list.push(JSON.stringify(value));
+    this.lists.set(key, list);
+    return list.length;
+  }
+
+  async slice<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const list = this.lists.get(key) || [];
+    return list.slice(start, stop === -1 ? undefined : stop + 1).map(item => JSON.parse(item));
+  }
+}
+
+describe('AuditLog in memory', () => {
+  it('chains every record to the one before it', async () => {
+    const log = new AuditLog({ storage: new MemoryStorage() });
+    await command(log, 'c1', 'alice', 'AAPL');
+    await command(log, 'c2', 'bob', 'MSFT');
+
+    const { records } = await log.query(all);
+    assert.deepEqual(records.map(record => record.seq), [1, 2, 3, 4]);
+    assert.equal(records[1].prevHash, records[0].hash);
+    assert.deepEqual(await log.verify(), { valid: true, records: 4, chains: 1 });
+  });
+
+  it('shares one log between instances on the same storage, each on its own chain', async () => {
+    const storage = new MemoryStorage();
+    const first = new AuditLog({ storage });
+    const second = new AuditLog({ storage });
+    await command(first, 'c1', 'alice', 'AAPL');
+    await command(second, 'c2', 'bob', 'MSFT');
+    await command(first, 'c3', 'alice', 'TSLA');
+
+    const reader = new AuditLog({ storage });
+    assert.deepEqual((await reader.query(all)).records.map(record => record.correlationId), ['c1', 'c1', 'c2', 'c2', 'c3', 'c3']);
+    assert.deepEqual(await reader.verify(), { valid: true, records: 6, chains: 2 });
+  });
+
+  it('filters by user, symbol, intent and correlation id, keeping the newest past the limit', async () => {
+    const log = new AuditLog({ storage: new MemoryStorage() });
+    await command(log, 'c1', 'alice', 'AAPL');
+    await command(log, 'c2', 'bob', 'MSFT');
+    await command(log, 'c3', 'alice', 'TSLA');
+
+    assert.equal((await log.query(AuditQuery.parse({ userId: 'alice' }))).records.length, 4);
+    assert.deepEqual((await log.query(AuditQuery.parse({ symbol: 'msft' }))).records.map(record => record.type), ['command_completed']);
+    assert.equal((await log.query(AuditQuery.parse({ intent: 'BUY' }))).records.length, 3);
+    assert.equal((await log.query(AuditQuery.parse({ correlationId: 'c3' }))).records.length, 2);
+    assert.deepEqual((await log.query(AuditQuery.parse({ limit: 2 }))).records.map(record => record.correlationId), ['c3', 'c3']);
+  });
+
+  it('pages back through older matches with the cursor', async () => {
+    const storage = new MemoryStorage();
+    const first = new AuditLog({ storage });
+    const second = new AuditLog({ storage });
+    await command(first, 'c1', 'alice', 'AAPL');
+    await command(second, 'c2', 'bob', 'MSFT');
+    await command(first, 'c3', 'alice', 'TSLA');
+
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await first.query(AuditQuery.parse({ limit: 4, cursor }));
+      pages.push(page.records.map(record => record.correlationId));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    assert.deepEqual(pages, [['c2', 'c2', 'c3', 'c3'], ['c1', 'c1']]);
+  });
+
+  it('verifies a page at a time, carrying the chain across pages', async () => {
+    const storage = new MemoryStorage();
+    const first = new AuditLog({ storage });
+    const second = new AuditLog({ storage });
+    await command(first, 'c1', 'alice', 'AAPL');
+    await command(first, 'c2', 'alice', 'AAPL');
+    await command(second, 'c3', 'bob', 'MSFT');
+
+    const page = await first.verify({ limit: 3 });
+    assert.equal(page.valid, true);
+    assert.equal(page.records, 3);
+    assert.ok(page.nextCursor);
+
+    assert.deepEqual(await first.verify({ cursor: page.nextCursor, limit: 3 }), { valid: true, records: 3, chains: 2 });
+  });
+
+  it('rejects a cursor it did not hand out', async () => {
+    const log = new AuditLog({ storage: new MemoryStorage() });
+    await command(log, 'c1', 'alice', 'AAPL');
+
+    await assert.rejects(log.query(AuditQuery.parse({ cursor: 'not-a-cursor' })), AuditCursorError);
+    await assert.rejects(log.verify({ cursor: Buffer.from('{"chain":"nope","seq":1,"prevHash":""}').toString('base64url') }), AuditCursorError);
+  });
+});
+
+describe('AuditLog on redis', () => {
+  it('appends each record to its chain list and reads them back in pages', async () => {
+    const redis = new FakeRedisStorage();
+    const first = new AuditLog({ storage: redis });
+    const second = new AuditLog({ storage: redis });
+    for (let i = 0; i < 300; i++) {
+      await command(first, `c${i}`, 'alice', 'AAPL');
+    }
+    await command(second, 'last', 'bob', 'MSFT');
+
+    const chains = await redis.slice<string>('audit.chains', 0, -1);
+    assert.equal(chains.length, 2);
+    assert.equal(redis.lists.get(`audit.chain.${chains[0]}`)?.length, 600);
+
+    assert.deepEqual(await first.verify(), { valid: true, records: 602, chains: 2 });
+    assert.equal((await new AuditLog({ storage: redis }).query(AuditQuery.parse({ userId: 'bob' }))).records.length, 2);
+  });
+
+  it('detects an edited or removed record', async () => {
+    const redis = new FakeRedisStorage();
+    const log = new AuditLog({ storage: redis });
+    await command(log, 'c1', 'alice', 'AAPL');
+    await command(log, 'c2', 'alice', 'AAPL');
+
+    const [chainId] = await redis.slice<string>('audit.chains', 0, -1);
+    const list = redis.lists.get(`audit.chain.${chainId}`)!;
+    const original = [...list];
+
+    list[2] = list[2].replace('"userId":"alice"', '"userId":"mallory"');
+    const edited = await log.verify();
+    assert.equal(edited.valid, false);
+    assert.equal(edited.brokenAt, 3);
+    assert.equal(edited.chainId, chainId);
+
+    list.splice(0, list.length, ...original.filter((_, index) => index !== 1));
+    assert.equal((await log.verify()).valid, false);
+  });
+});
+
+describe('AuditLog in a file', () => {
+  it('resumes the chain after a restart and detects tampering', async () => {
+    const file = tempFile();
+    await command(new AuditLog({ file }), 'c1', 'alice', 'AAPL');
+    const reopened = new AuditLog({ file });
+    await command(reopened, 'c2', 'alice', 'AAPL');
+
+    assert.deepEqual(await reopened.verify(), { valid: true, records: 4, chains: 1 });
+
+    const lines = readFileSync(file, 'utf8').trim().split('\n');
+    lines[1] = lines[1].replace('"success":true', '"success":false');
+    writeFileSync(file, `${lines.join('\n')}\n`);
+
+    const result = await reopened.verify();
+    assert.equal(result.valid, false);
+    assert.equal(result.brokenAt, 2);
+  });
+
+  it('resumes verification from a cursor part way through the file', async () => {
+    const file = tempFile();
+    const log = new AuditLog({ file });
+    await command(log, 'c1', 'alice', 'AAPL');
+    await command(log, 'c2', 'alice', 'AAPL');
+
+    const page = await log.verify({ limit: 3 });
+    assert.deepEqual(await log.verify({ cursor: page.nextCursor }), { valid: true, records: 1, chains: 1 });
+  });
+
+  it('keeps the log of the file storage backend in a JSONL file beside its store', async () => {
+    const store = join(mkdtempSync(join(tmpdir(), 'audit-')), 'store.json');
+    const log = new AuditLog({ file: undefined, storage: new FileStorage(store) });
+    await command(log, 'c1', 'alice', 'AAPL');
+
+    assert.equal(existsSync(store), false);
+    assert.equal(readFileSync(join(store, '..', 'audit.jsonl'), 'utf8').trim().split('\n').length, 2);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandAgent } from '../src/CommandAgent.js';
+import { IntentParser } from '../src/IntentParser.js';
+import { AuditLog } from '../src/audit/AuditLog.js';
+import { Identity } from '../src/auth.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { fakeSwarm } from './support/swarm.js';
+import { FakeMCPClient } from './support/FakeMCPClient.js';
+
+function agent(mcp: FakeMCPClient = fakeSwarm({ prices: { AAPL: 100, TSLA: 250 } })): CommandAgent {
+  const storage = new MemoryStorage();
+  return new CommandAgent(storage, new AuditLog({ storage }), mcp, new IntentParser(null));
+}
+
+const trader = (userId: string): Identity => ({ userId, roles: ['trader'], method: 'api_key' });
+const admin: Identity = { userId: 'root', roles: ['admin'], method: 'api_key' };
+
+const submitted = (mcp: FakeMCPClient) => mcp.calls.filter(call => call.tool === 'execution.submit_order');
+
+describe('CommandAgent parse tool', () => {
+  it('returns the first command and the whole plan without running anything', async () => {
+    const mcp = fakeSwarm();
+    const result = await agent(mcp).handleToolCall('command-agent.parse', { command: 'sell 10 TSLA and buy 5 AAPL' });
+
+    assert.deepEqual(result.command.entities, { symbol: 'TSLA', quantity: 10 });
+    assert.deepEqual(result.plan.steps.map((step: { command: { intent: string } }) => step.command.intent), ['SELL', 'BUY']);
+    assert.deepEqual(mcp.calls, []);
+  });
+
+  it('rejects input without a command', async () => {
+    await assert.rejects(agent().handleToolCall('command-agent.parse', { userId: 'alice' }), { name: 'ZodError' });
+  });
+});
+
+describe('CommandAgent analyze_symbol tool', () => {
+  it("returns each agent's report and the consensus for the symbol", async () => {
+    const result = await agent().handleToolCall('command-agent.analyze_symbol', { symbol: 'aapl' });
+
+    assert.equal(result.symbol, 'AAPL');
+    assert.equal(result.intent, 'BUY');
+    assert.ok(Object.keys(result.analysis).length > 0);
+    assert.equal(result.consensus.shouldProceed, true);
+  });
+
+  it('weighs the side it is asked for', async () => {
+    const result = await agent().handleToolCall('command-agent.analyze_symbol', { symbol: 'AAPL', intent: 'SELL' });
+
+    assert.equal(result.intent, 'SELL');
+    assert.equal(result.consensus.shouldProceed, false);
+  });
+});
+
+describe('CommandAgent list_alerts tool', () => {
+  it("lists the caller's active alerts, optionally for one symbol", async () => {
+    const commandAgent = agent();
+    await commandAgent.processCommand({ command: 'alert me when AAPL goes above $150', userId: 'alice' });
+    await commandAgent.processCommand({ command: 'alert me when TSLA goes above $300', userId: 'alice' });
+    await commandAgent.processCommand({ command: 'alert me when AAPL goes above $120', userId: 'bob' });
+
+    const all = await commandAgent.handleToolCall('command-agent.list_alerts', { userId: 'alice' });
+    const apple = await commandAgent.handleToolCall('command-agent.list_alerts', { userId: 'alice', symbol: 'aapl' });
+
+    assert.deepEqual(all.alerts.map((alert: { symbol: string }) => alert.symbol), ['AAPL', 'TSLA']);
+    assert.deepEqual(apple.alerts.map((alert: { symbol: string; userId: string }) => [alert.symbol, alert.userId]), [['AAPL', 'alice']]);
+  });
+
+  it("lists the authenticated user's alerts whatever userId the input names", async () => {
+    const commandAgent = agent();
+    await commandAgent.processCommand({ command: 'alert me when AAPL goes above $150', userId: 'alice' });
+
+    const result = await commandAgent.handleToolCall('command-agent.list_alerts', { userId: 'alice' }, { identity: trader('bob') });
+
+    assert.deepEqual(result.alerts, []);
+  });
+});
+
+describe('CommandAgent confirm tool', () => {
+  it('places the offered trade when confirmed with its token', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    const commandAgent = agent(mcp);
+    const offered = await commandAgent.processCommand({ command: 'buy 5 AAPL', userId: 'alice' });
+    assert.equal(offered.data.requiresConfirmation, true);
+
+    const confirmed = await commandAgent.handleToolCall('command-agent.confirm', {
+      confirmationToken: offered.data.confirmationToken,
+      decision: 'confirm',
+      userId: 'alice'
+    });
+
+    assert.equal(confirmed.success, true);
+    assert.deepEqual(submitted(mcp).map(call => [call.input.symbol, call.input.side, call.input.qty]), [['AAPL', 'BUY', 5]]);
+  });
+
+  it('places nothing when the trade is rejected', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    const commandAgent = agent(mcp);
+    const offered = await commandAgent.processCommand({ command: 'buy 5 AAPL', userId: 'alice' });
+
+    const rejected = await commandAgent.handleToolCall('command-agent.confirm', {
+      confirmationToken: offered.data.confirmationToken,
+      decision: 'reject',
+      userId: 'alice'
+    });
+
+    assert.equal(rejected.success, true);
+    assert.equal(rejected.data.cancelled, true);
+    assert.deepEqual(submitted(mcp), []);
+  });
+
+  it("refuses a token from another session's pending action", async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    const commandAgent = agent(mcp);
+    await commandAgent.processCommand({ command: 'buy 5 AAPL', userId: 'alice' });
+
+    const confirmed = await commandAgent.handleToolCall('command-agent.confirm', {
+      confirmationToken: 'not-the-token',
+      decision: 'confirm',
+      userId: 'alice'
+    });
+
+    assert.equal(confirmed.success, false);
+    assert.deepEqual(submitted(mcp), []);
+  });
+});
+
+describe('CommandAgent explain tool', () => {
+  async function explained(identity?: Identity, userId?: string) {
+    const commandAgent = agent();
+    const { correlationId } = await commandAgent.processCommand({ command: 'analyze AAPL', userId: 'alice' });
+    const result = await commandAgent.handleToolCall('command-agent.explain', { correlationId, userId }, { identity });
+    return { correlationId, result };
+  }
+
+  it("returns the audit trail of the user's own command in order", async () => {
+    const { correlationId, result } = await explained(undefined, 'alice');
+
+    assert.equal(result.correlationId, correlationId);
+    assert.equal(result.records[0].type, 'command_received');
+    assert.equal(result.records.at(-1).type, 'command_completed');
+    assert.ok(result.records.every((record: { correlationId: string; userId: string }) => record.correlationId === correlationId && record.userId === 'alice'));
+  });
+
+  it("shows nothing of another user's command without authentication", async () => {
+    assert.deepEqual((await explained(undefined, 'bob')).result.records, []);
+    assert.deepEqual((await explained()).result.records, []);
+  });
+
+  it("shows nothing of another user's command to an authenticated trader", async () => {
+    assert.deepEqual((await explained(trader('bob'), 'alice')).result.records, []);
+  });
+
+  it("shows an admin anyone's command", async () => {
+    assert.ok((await explained(admin)).result.records.length > 0);
+  });
+});
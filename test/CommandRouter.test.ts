@@ -0,0 +1,154 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CommandRouter } from '../src/CommandRouter.js';
+import { CommandPlan, ParsedCommand, PlanStep } from '../src/types.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { fakeSwarm } from './support/swarm.js';
+
+const command = (intent: ParsedCommand['intent'], entities: ParsedCommand['entities']): ParsedCommand => ({
+  intent,
+  entities,
+  confidence: 0.9,
+  needsConfirmation: intent === 'BUY' || intent === 'SELL',
+  originalText: `${intent.toLowerCase()} ${entities.symbol ?? ''}`.trim()
+});
+
+const buy = (symbol: string, quantity: number): ParsedCommand => command('BUY', { symbol, quantity });
+
+const plan = (...steps: Array<Omit<PlanStep, 'dependsOn'> & { dependsOn?: string[] }>): CommandPlan => ({
+  originalText: 'plan',
+  steps: steps.map(step => ({ dependsOn: [], ...step }))
+});
+
+// Lets sells through a swarm that otherwise only backs buys
+const anySell = { intents: { SELL: { threshold: 0 } } };
+
+describe('CommandRouter trade risk check', () => {
+  it("refuses an order over the user's limit even when the risk engine approves it", async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    mcp.config.set('users.alice.settings', { maxPositionValue: 1000, maxGrossExposure: 50_000 });
+    const router = new CommandRouter(mcp, new MemoryStorage());
+
+    const result = await router.routeCommand(buy('AAPL', 20), { userId: 'alice' });
+
+    assert.equal(result.success, false);
+    assert.equal(result.view.kind === 'trade' && result.view.outcome.type, 'risk_rejected');
+    assert.deepEqual(result.data.breaches.map((breach: { rule: string }) => breach.rule), ['maxSingle']);
+  });
+
+  it('offers an order within the limits the engine approves', async () => {
+    const router = new CommandRouter(fakeSwarm({ prices: { AAPL: 100 } }), new MemoryStorage());
+
+    const result = await router.routeCommand(buy('AAPL', 5), { userId: 'alice' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.data.requiresConfirmation, true);
+    assert.equal(result.data.proposal.qty, 5);
+  });
+
+  it("keeps the engine's own breaches without repeating a limit it already named", async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    mcp.config.set('users.alice.settings', { maxPositionValue: 1000, maxGrossExposure: 50_000 });
+    mcp.on('risk-engine.pretrade_check', () => ({ status: 'REJECTED', breaches: ['max_single', 'sector_concentration'] }));
+    const router = new CommandRouter(mcp, new MemoryStorage());
+
+    const result = await router.routeCommand(buy('AAPL', 20), { userId: 'alice' });
+
+    assert.deepEqual(result.data.breaches.map((breach: { rule: string }) => breach.rule), ['maxSingle', 'sector_concentration']);
+  });
+});
+
+describe('CommandRouter.executePlan', () => {
+  it('runs the steps in order and places each trade', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100, MSFT: 300 } });
+    const router = new CommandRouter(mcp, new MemoryStorage());
+
+    const result = await router.executePlan(plan(
+      { id: 's1', command: buy('MSFT', 2) },
+      { id: 's2', command: command('ALERT', { symbol: 'AAPL', action: 'create', condition: { type: 'above', price: 150 } }) },
+      { id: 's3', command: buy('AAPL', 3) }
+    ), { userId: 'alice' });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.data.steps.map((step: { id: string; status: string }) => [step.id, step.status]), [['s1', 'succeeded'], ['s2', 'succeeded'], ['s3', 'succeeded']]);
+    assert.deepEqual(mcp.calls.filter(call => call.tool === 'execution.submit_order').map(call => call.input.symbol), ['MSFT', 'AAPL']);
+    assert.equal((await router.listAlerts('alice')).length, 1);
+  });
+
+  it('stops at the first failed step and skips the rest', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100, TSLA: 200 } });
+    mcp.on('risk-engine.pretrade_check', ({ symbol }) => symbol === 'TSLA' ? { status: 'REJECTED', breaches: ['volatility'] } : { status: 'APPROVED' });
+    const router = new CommandRouter(mcp, new MemoryStorage());
+
+    const result = await router.executePlan(plan(
+      { id: 's1', command: buy('AAPL', 1) },
+      { id: 's2', command: buy('TSLA', 1) },
+      { id: 's3', command: buy('AAPL', 1) },
+      { id: 's4', command: command('ALERT', { symbol: 'AAPL', action: 'create', condition: { type: 'above', price: 150 } }) }
+    ), { userId: 'alice' });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.data.steps.map((step: { status: string }) => step.status), ['succeeded', 'failed', 'skipped', 'skipped']);
+    assert.equal(mcp.calls.filter(call => call.tool === 'execution.submit_order').length, 1);
+    assert.deepEqual(await router.listAlerts('alice'), []);
+  });
+
+  it("funds a later buy from an earlier sale's fill", async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100, TSLA: 200 }, positions: [{ symbol: 'TSLA', qty: 10, marketPrice: 200 }] });
+    mcp.config.set('consensus.policy.users.alice', anySell);
+    const router = new CommandRouter(mcp, new MemoryStorage());
+
+    const result = await router.executePlan(plan(
+      { id: 's1', command: command('SELL', { symbol: 'TSLA', quantity: 10 }) },
+      { id: 's2', command: command('BUY', { symbol: 'AAPL' }), dependsOn: ['s1'], amountFrom: { step: 's1', fraction: 0.5 } }
+    ), { userId: 'alice' });
+
+    assert.equal(result.success, true);
+    const [sale, purchase] = mcp.calls.filter(call => call.tool === 'execution.submit_order').map(call => call.input);
+    assert.deepEqual([sale.side, sale.qty], ['SELL', 10]);
+    // Half of the $2,000 sale buys ten $100 shares
+    assert.deepEqual([purchase.symbol, purchase.qty], ['AAPL', 10]);
+  });
+
+  it('fails a step funded by one that filled nothing', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100, TSLA: 200 } });
+    mcp.config.set('consensus.policy.users.alice', anySell);
+    mcp.on('execution.submit_order', () => ({ orderId: 'resting', status: 'new' }));
+    const router = new CommandRouter(mcp, new MemoryStorage());
+
+    const result = await router.executePlan(plan(
+      { id: 's1', command: command('SELL', { symbol: 'TSLA', quantity: 10 }) },
+      { id: 's2', command: command('BUY', { symbol: 'AAPL' }), amountFrom: { step: 's1', fraction: 1 } }
+    ), { userId: 'alice' });
+
+    assert.deepEqual(result.data.steps.map((step: { status: string }) => step.status), ['succeeded', 'failed']);
+    assert.equal(result.view.kind === 'plan_result' && result.view.steps[1].view.kind === 'notice' && result.view.steps[1].view.code, 'step_unfunded');
+  });
+});
+
+describe('CommandRouter.confirmTrade', () => {
+  it('refuses a confirmed trade once trading has been halted since the proposal', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    const router = new CommandRouter(mcp, new MemoryStorage());
+    const proposed = await router.routeCommand(buy('AAPL', 2), { userId: 'alice' });
+
+    await router.routeCommand(command('STOP', { scope: 'user' }), { userId: 'alice' });
+    const result = await router.confirmTrade(buy('AAPL', 2), proposed.data.proposal, proposed.data.recommendation, { userId: 'alice' });
+
+    assert.equal(result.success, false);
+    assert.equal(result.view.kind, 'halted');
+    assert.equal(mcp.calls.some(call => call.tool === 'execution.submit_order'), false);
+  });
+
+  it('submits the proposal as shown when trading is open', async () => {
+    const mcp = fakeSwarm({ prices: { AAPL: 100 } });
+    const router = new CommandRouter(mcp, new MemoryStorage());
+    const proposed = await router.routeCommand(buy('AAPL', 2), { userId: 'alice' });
+
+    const result = await router.confirmTrade(buy('AAPL', 2), proposed.data.proposal, proposed.data.recommendation, { userId: 'alice' });
+
+    assert.equal(result.success, true);
+    assert.equal(result.data.order.status, 'FILLED');
+    assert.deepEqual(mcp.calls.filter(call => call.tool === 'execution.submit_order').map(call => [call.input.symbol, call.input.qty]), [['AAPL', 2]]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExecutionService, OrderRequest } from '../src/ExecutionService.js';
+import { PaperLedger } from '../src/PaperLedger.js';
+import { MarketDataService } from '../src/MarketDataService.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { FakeMCPClient } from './support/FakeMCPClient.js';
+
+const limitBuy = (symbol: string, qty: number, limitPrice: number): OrderRequest =>
+  ({ symbol, side: 'BUY', qty, spec: { orderType: 'LIMIT', limitPrice, timeInForce: 'GTC' } });
+
+// A venue that rests every order until told otherwise
+function venue(): { mcp: FakeMCPClient; status: Map<string, Record<string, unknown>> } {
+  const status = new Map<string, Record<string, unknown>>();
+  let next = 0;
+  const mcp = new FakeMCPClient()
+    .on('execution.submit_order', () => {
+      const orderId = `venue-${++next}`;
+      status.set(orderId, { status: 'new' });
+      return { orderId, status: 'new' };
+    })
+    .on('execution.get_order', ({ orderId }) => status.get(orderId))
+    .on('execution.cancel_order', ({ orderId }) => status.get(orderId)?.status === 'filled' ? status.get(orderId) : { status: 'canceled' });
+  return { mcp, status };
+}
+
+function service(mcp: FakeMCPClient, storage = new MemoryStorage()): ExecutionService {
+  return new ExecutionService(mcp, new PaperLedger(new MarketDataService(mcp), storage), storage);
+}
+
+describe('ExecutionService', () => {
+  it('sends the full order spec to the venue and stores the order under its id', async () => {
+    const { mcp } = venue();
+    const execution = service(mcp);
+
+    const order = await execution.submitOrder('alice', limitBuy('AAPL', 10, 150));
+
+    const [submitted] = mcp.calls.filter(call => call.tool === 'execution.submit_order').map(call => call.input);
+    assert.deepEqual(
+      { ...submitted, clientOrderId: undefined },
+      { clientOrderId: undefined, userId: 'alice', symbol: 'AAPL', side: 'BUY', qty: 10, type: 'LIMIT', limitPrice: 150, stopPrice: undefined, trailAmount: undefined, trailPercent: undefined, timeInForce: 'GTC' }
+    );
+    assert.equal(order.orderId, 'venue-1');
+    assert.equal(order.status, 'SUBMITTED');
+    // Stored as JSON, so unset fields are left out
+    assert.deepEqual(await execution.getOrder('venue-1'), JSON.parse(JSON.stringify(order)));
+  });
+
+  it('maps venue statuses onto the order lifecycle', async () => {
+    const statuses: Array<[string, string]> = [
+      ['partial_fill', 'PARTIALLY_FILLED'], ['done', 'FILLED'], ['failed', 'REJECTED'], ['expired', 'CANCELLED'], ['accepted', 'SUBMITTED']
+    ];
+    for (const [reported, expected] of statuses) {
+      const mcp = new FakeMCPClient().on('execution.submit_order', () => ({ orderId: reported, status: reported }));
+      assert.equal((await service(mcp).submitOrder('alice', limitBuy('AAPL', 1, 100))).status, expected, reported);
+    }
+  });
+
+  it('records an order the venue could not be reached for as rejected', async () => {
+    const mcp = new FakeMCPClient();
+    mcp.failing.add('execution');
+    const execution = service(mcp);
+
+    const order = await execution.submitOrder('alice', limitBuy('AAPL', 1, 100));
+
+    assert.equal(order.status, 'REJECTED');
+    assert.match(order.rejectReason || '', /503/);
+    assert.deepEqual((await execution.getUserOrders('alice')).map(stored => stored.orderId), [order.orderId]);
+  });
+
+  it("lists a user's open orders newest first, refreshed from the venue", async () => {
+    const { mcp, status } = venue();
+    const execution = service(mcp);
+    await execution.submitOrder('alice', limitBuy('AAPL', 10, 150));
+    await execution.submitOrder('alice', limitBuy('MSFT', 5, 300));
+    await execution.submitOrder('bob', limitBuy('TSLA', 1, 200));
+
+    status.set('venue-1', { status: 'filled', filledQty: 10, avgFillPrice: 149.5 });
+
+    assert.deepEqual((await execution.getOpenOrders('alice')).map(order => order.symbol), ['MSFT']);
+    assert.deepEqual((await execution.getOpenOrders()).map(order => order.symbol), ['TSLA', 'MSFT']);
+    assert.deepEqual(await execution.getOrder('venue-1').then(order => [order?.status, order?.avgFillPrice]), ['FILLED', 149.5]);
+  });
+
+  it('cancels an open order and refuses to cancel a closed or unknown one', async () => {
+    const { mcp, status } = venue();
+    const execution = service(mcp);
+    await execution.submitOrder('alice', limitBuy('AAPL', 10, 150));
+    await execution.submitOrder('alice', limitBuy('MSFT', 5, 300));
+
+    assert.equal((await execution.cancelOrder('venue-1')).status, 'CANCELLED');
+    assert.equal((await execution.getOrder('venue-1'))?.status, 'CANCELLED');
+    await assert.rejects(execution.cancelOrder('venue-1'), /already cancelled/);
+    await assert.rejects(execution.cancelOrder('venue-9'), /Unknown order: venue-9/);
+
+    // A cancel that loses the race to a fill keeps the venue's answer
+    status.set('venue-2', { status: 'filled', filledQty: 5 });
+    assert.equal((await execution.cancelOrder('venue-2')).status, 'FILLED');
+  });
+
+  it('keeps orders in storage, so another instance lists and cancels them', async () => {
+    const storage = new MemoryStorage();
+    const { mcp } = venue();
+    await service(mcp, storage).submitOrder('alice', limitBuy('AAPL', 10, 150));
+
+    const restarted = service(mcp, storage);
+    assert.deepEqual((await restarted.getOpenOrders('alice')).map(order => order.orderId), ['venue-1']);
+    assert.equal((await restarted.cancelOrder('venue-1')).status, 'CANCELLED');
+  });
+
+  it('fills paper orders against the ledger without reaching the venue', async () => {
+    const mcp = new FakeMCPClient().on('market-data.get_ohlcv', () => ({ rows: [{ date: new Date().toISOString().slice(0, 10), close: 100 }] }));
+    const execution = service(mcp);
+
+    const order = await execution.submitOrder('alice', { symbol: 'AAPL', side: 'BUY', qty: 2, spec: { orderType: 'MARKET', timeInForce: 'DAY' } }, 'paper');
+
+    assert.equal(order.status, 'FILLED');
+    assert.equal(order.tradingMode, 'paper');
+    assert.equal(mcp.calls.some(call => call.service === 'execution'), false);
+    assert.equal(await execution.getExecutedNotional('alice', new Date(0), 'paper'), 2 * order.avgFillPrice!);
+    assert.equal(await execution.getExecutedNotional('alice', new Date(0), 'live'), 0);
+  });
+});
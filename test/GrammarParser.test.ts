@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GrammarParser } from '../src/GrammarParser.js';
+import { CommandIntentType, ExtractedEntities } from '../src/types.js';
+
+const parser = new GrammarParser();
+
+const commands: Array<[string, CommandIntentType, Partial<ExtractedEntities>]> = [
+  // Sizes
+  ['buy 10 shares of AAPL', 'BUY', { symbol: 'AAPL', quantity: 10 }],
+  ['buy 2 apple', 'BUY', { symbol: 'AAPL', quantity: 2 }],
+  ['buy $5k of TSLA', 'BUY', { symbol: 'TSLA', amount: 5000 }],
+  ['buy 1.5m of SPY', 'BUY', { symbol: 'SPY', amount: 1_500_000 }],
+  ['buy 500k worth of AAPL', 'BUY', { symbol: 'AAPL', amount: 500_000 }],
+  ['sell half my TSLA', 'SELL', { symbol: 'TSLA', relativeSize: { percent: 50, of: 'position' } }],
+  ['buy 10% of my portfolio in NVDA', 'BUY', { symbol: 'NVDA', relativeSize: { percent: 10, of: 'portfolio' } }],
+  ['close my TSLA position', 'SELL', { symbol: 'TSLA', relativeSize: { percent: 100, of: 'position' } }],
+
+  // Order types
+  ['buy 10 AAPL stop limit at 180 limit 181', 'BUY', { symbol: 'AAPL', quantity: 10, orderType: 'STOP_LIMIT', stopPrice: 180, limitPrice: 181 }],
+  ['sell 5 TSLA limit $240 stop-limit at $245', 'SELL', { symbol: 'TSLA', quantity: 5, orderType: 'STOP_LIMIT', stopPrice: 245, limitPrice: 240 }],
+  ['buy 50 NVDA with a 5% trailing stop', 'BUY', { symbol: 'NVDA', quantity: 50, orderType: 'TRAILING_STOP', trailPercent: 5 }],
+
+  // Settings
+  ['disable plain mode', 'CONFIG', { setting: { key: 'personaMode', value: true } }],
+  ['switch to plain mode', 'CONFIG', { setting: { key: 'personaMode', value: false } }],
+  ['turn off persona mode', 'CONFIG', { setting: { key: 'personaMode', value: false } }],
+  ['turn on personas', 'CONFIG', { setting: { key: 'personaMode', value: true } }],
+  ['set my max position to $5k', 'CONFIG', { setting: { key: 'maxPositionValue', value: 5000 } }],
+  ['require confirmation for trades over $1000', 'CONFIG', { setting: { key: 'confirmationThreshold', value: 1000 } }],
+  ['switch to paper trading', 'CONFIG', { setting: { key: 'paperTrading', value: true } }],
+  ['switch to live trading', 'CONFIG', { setting: { key: 'paperTrading', value: false } }],
+  ['show my settings', 'CONFIG', { action: 'list' }],
+
+  // Alerts
+  ['alert me when AAPL goes above $150', 'ALERT', { symbol: 'AAPL', action: 'create', condition: { type: 'above', price: 150 } }],
+  ['alert me if TSLA moves 5% today', 'ALERT', { symbol: 'TSLA', timeframe: '1d', action: 'create', condition: { type: 'percent_move', percent: 5, direction: 'either', timeframe: '1d' } }],
+
+  // Everything else
+  ['stop all trading', 'STOP', { scope: 'user' }],
+  ['resume trading', 'RESUME', { scope: 'user' }],
+  ["what's my portfolio status", 'STATUS', {}],
+  ['show my open orders', 'ORDERS', { action: 'list' }],
+  ['cancel my last order', 'ORDERS', { action: 'cancel' }],
+  ['analyze NVDA', 'ANALYZE', { symbol: 'NVDA' }],
+  ['show my recent commands', 'HISTORY', {}]
+];
+
+describe('GrammarParser.parse', () => {
+  for (const [command, intent, entities] of commands) {
+    it(`parses "${command}"`, () => {
+      const parsed = parser.parse(command);
+      assert.equal(parsed.intent, intent);
+      assert.deepEqual(parsed.entities, entities);
+      assert.equal(parsed.originalText, command);
+    });
+  }
+
+  it('is deterministic', () => {
+    assert.deepEqual(parser.parse('buy 10 shares of AAPL'), parser.parse('buy 10 shares of AAPL'));
+  });
+});
+
+describe('GrammarParser.parsePlan', () => {
+  it('splits clauses and carries the symbol over', () => {
+    const { steps } = parser.parsePlan('buy 10 AAPL then alert me if it drops below $150');
+    assert.deepEqual(steps.map(step => step.command.intent), ['BUY', 'ALERT']);
+    assert.equal(steps[1].command.entities.symbol, 'AAPL');
+  });
+
+  it('funds a trade from an earlier one\'s proceeds', () => {
+    const { steps } = parser.parsePlan('sell half my AAPL and buy MSFT with half the proceeds');
+    assert.deepEqual(steps[1].amountFrom, { step: 's1', fraction: 0.5 });
+    assert.deepEqual(steps[1].dependsOn, ['s1']);
+    assert.equal(steps[1].command.entities.relativeSize, undefined);
+  });
+
+  it('keeps a single command as one step', () => {
+    assert.equal(parser.parsePlan('sell half my TSLA').steps.length, 1);
+  });
+});
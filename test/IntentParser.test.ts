@@ -0,0 +1,114 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IntentParser, IntentValidationError } from '../src/IntentParser.js';
+import { ScriptedProvider } from '../src/llm/ScriptedProvider.js';
+import { LLMBudget } from '../src/llm/LLMBudget.js';
+import { GrammarParser } from '../src/GrammarParser.js';
+import { CommandPlanToolInput } from '../src/types.js';
+
+const budget = () => new LLMBudget({ dailyTokens: 1000, inputCostPerMTok: 0, outputCostPerMTok: 0 });
+
+const buyApple = {
+  steps: [{ id: 's1', intent: 'BUY', entities: { symbol: 'AAPL', quantity: 3 }, confidence: 0.95, needsConfirmation: true, dependsOn: [] }]
+};
+
+describe('IntentParser with a scripted provider', () => {
+  it("takes a valid tool call as the plan and sends the user's text as data", async () => {
+    const provider = new ScriptedProvider([buyApple]);
+    const plan = await new IntentParser(provider, budget()).parsePlan('grab me three apple', { source: 'test' }, 'alice');
+
+    assert.deepEqual(plan.steps.map(step => step.command), [{
+      intent: 'BUY',
+      entities: { symbol: 'AAPL', quantity: 3 },
+      confidence: 0.95,
+      needsConfirmation: true,
+      originalText: 'grab me three apple'
+    }]);
+    assert.equal(provider.requests.length, 1);
+    assert.equal(provider.requests[0].userText, 'grab me three apple');
+    assert.deepEqual(provider.requests[0].context, { source: 'test' });
+    assert.equal(provider.requests[0].tool.name, 'record_parsed_command');
+  });
+
+  it('makes an amount taken from an earlier step a dependency of it', async () => {
+    const provider = new ScriptedProvider([{
+      steps: [
+        { id: 's1', intent: 'SELL', entities: { symbol: 'TSLA', quantity: 10 }, confidence: 0.9, needsConfirmation: true, dependsOn: [] },
+        { id: 's2', intent: 'BUY', entities: { symbol: 'NVDA' }, confidence: 0.9, needsConfirmation: true, dependsOn: [], amountFrom: { step: 's1', fraction: 1 } }
+      ]
+    }]);
+    const plan = await new IntentParser(provider, budget()).parsePlan('sell 10 TSLA and put it into NVDA');
+
+    assert.deepEqual(plan.steps[1].dependsOn, ['s1']);
+    assert.deepEqual(plan.steps[1].amountFrom, { step: 's1', fraction: 1 });
+  });
+
+  it('rejects a malformed tool call and parses with the grammar instead', async () => {
+    const command = 'buy 10 shares of AAPL';
+    const provider = new ScriptedProvider([{ steps: [{ id: 's1', intent: 'SELL', entities: { symbol: 'AAPL' }, confidence: 7 }] }]);
+    const plan = await new IntentParser(provider, budget()).parsePlan(command);
+
+    assert.equal(provider.requests.length, 1);
+    assert.deepEqual(plan, new GrammarParser().parsePlan(command));
+    assert.equal(plan.steps[0].command.intent, 'BUY');
+  });
+
+  it('falls back to the grammar when the provider fails', async () => {
+    const command = 'sell half my TSLA';
+    const provider = new ScriptedProvider([new Error('529 overloaded')]);
+    const plan = await new IntentParser(provider, budget()).parsePlan(command);
+
+    assert.deepEqual(plan, new GrammarParser().parsePlan(command));
+  });
+
+  it("parses offline without calling the provider once the user's budget is spent", async () => {
+    const spent = budget();
+    spent.record('alice', { inputTokens: 900, outputTokens: 200 });
+    const provider = new ScriptedProvider([buyApple]);
+    const parser = new IntentParser(provider, spent);
+
+    const plan = await parser.parsePlan('analyze NVDA', undefined, 'alice');
+    assert.equal(plan.steps[0].command.intent, 'ANALYZE');
+    assert.equal(provider.requests.length, 0);
+
+    // Other users still reach the model
+    assert.equal((await parser.parsePlan('grab me three apple', undefined, 'bob')).steps[0].command.entities.quantity, 3);
+    assert.equal(provider.requests.length, 1);
+  });
+});
+
+function fieldErrors(input: unknown): IntentValidationError {
+  const parsed = CommandPlanToolInput.safeParse(input);
+  if (parsed.success) assert.fail('expected the tool input to be invalid');
+  return IntentValidationError.fromZodError(parsed.error);
+}
+
+describe('IntentValidationError', () => {
+  it('names the field and the reason for each invalid value', () => {
+    const error = fieldErrors({
+      steps: [{ id: 's1', intent: 'BUY', entities: { symbol: 'AAPL', orderType: 'FOK' }, confidence: 2, needsConfirmation: true, dependsOn: [] }]
+    });
+
+    assert.deepEqual(error.fieldErrors, [
+      { path: 'steps.0.entities.orderType', message: "Invalid enum value. Expected 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_LIMIT' | 'TRAILING_STOP', received 'FOK'" },
+      { path: 'steps.0.confidence', message: 'Number must be less than or equal to 1' }
+    ]);
+    assert.equal(error.message, `Invalid parse: ${error.fieldErrors.map(field => `${field.path}: ${field.message}`).join('; ')}`);
+  });
+
+  it('reports an unknown intent against its step', () => {
+    assert.deepEqual(fieldErrors({ steps: [{ id: 's1', intent: 'YOLO', entities: {}, confidence: 0.9 }] }).fieldErrors, [{
+      path: 'steps.0.intent',
+      message: "Invalid enum value. Expected 'BUY' | 'SELL' | 'QUERY' | 'ALERT' | 'ANALYZE' | 'CONFIG' | 'STOP' | 'STATUS' | 'ORDERS' | 'RESUME' | 'HISTORY', received 'YOLO'"
+    }]);
+  });
+
+  it('reports missing and empty plans against steps', () => {
+    assert.deepEqual(fieldErrors({}).fieldErrors, [{ path: 'steps', message: 'Required' }]);
+    assert.deepEqual(fieldErrors({ steps: [] }).fieldErrors, [{ path: 'steps', message: 'Array must contain at least 1 element(s)' }]);
+  });
+
+  it('reports a payload that is not an object at the root', () => {
+    assert.deepEqual(fieldErrors('BUY AAPL').fieldErrors, [{ path: '(root)', message: 'Expected object, received string' }]);
+  });
+});
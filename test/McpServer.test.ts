@@ -0,0 +1,178 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpServer, JsonRpcErrorCode, JsonRpcNotification, JsonRpcResponse, SUPPORTED_PROTOCOL_VERSIONS } from '../src/mcp/McpServer.js';
+import { CommandAgent } from '../src/CommandAgent.js';
+import { IntentParser } from '../src/IntentParser.js';
+import { AuditLog } from '../src/audit/AuditLog.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { fakeSwarm } from './support/swarm.js';
+
+function server(): McpServer {
+  const storage = new MemoryStorage();
+  return new McpServer(new CommandAgent(storage, new AuditLog({ storage }), fakeSwarm(), new IntentParser(null)));
+}
+
+const request = (id: number, method: string, params?: Record<string, unknown>) => ({ jsonrpc: '2.0', id, method, params });
+
+function result(response: JsonRpcResponse | JsonRpcResponse[] | undefined): any {
+  assert.ok(response && !Array.isArray(response) && 'result' in response, `expected a result, got ${JSON.stringify(response)}`);
+  return response.result;
+}
+
+function error(response: JsonRpcResponse | JsonRpcResponse[] | undefined) {
+  assert.ok(response && !Array.isArray(response) && 'error' in response, `expected an error, got ${JSON.stringify(response)}`);
+  return response;
+}
+
+describe('McpServer initialize and ping', () => {
+  it('agrees to a protocol version it supports', async () => {
+    const initialized = result(await server().handle(request(1, 'initialize', { protocolVersion: '2025-03-26' })));
+
+    assert.equal(initialized.protocolVersion, '2025-03-26');
+    assert.deepEqual(initialized.capabilities, { tools: { listChanged: false } });
+    assert.equal(initialized.serverInfo.name, '@swarm/command-agent');
+  });
+
+  it('offers the newest version to a client asking for one it does not know', async () => {
+    const initialized = result(await server().handle(request(1, 'initialize', { protocolVersion: '1999-01-01' })));
+
+    assert.equal(initialized.protocolVersion, SUPPORTED_PROTOCOL_VERSIONS[0]);
+  });
+
+  it('answers ping with an empty result under the same id', async () => {
+    assert.deepEqual(await server().handle(request(7, 'ping')), { jsonrpc: '2.0', id: 7, result: {} });
+  });
+});
+
+describe('McpServer tools', () => {
+  it("lists the agent's tools with their input schemas", async () => {
+    const { tools } = result(await server().handle(request(1, 'tools/list')));
+
+    assert.deepEqual(tools.map((tool: { name: string }) => tool.name), [
+      'command-agent.process',
+      'command-agent.parse',
+      'command-agent.analyze_symbol',
+      'command-agent.list_alerts',
+      'command-agent.confirm',
+      'command-agent.explain'
+    ]);
+    for (const tool of tools) {
+      assert.equal(tool.inputSchema.type, 'object', tool.name);
+    }
+  });
+
+  it('returns a tool result as text and structured content', async () => {
+    const called = result(await server().handle(request(2, 'tools/call', {
+      name: 'command-agent.parse',
+      arguments: { command: 'buy 10 AAPL' }
+    })));
+
+    assert.equal(called.isError, false);
+    assert.equal(called.structuredContent.command.intent, 'BUY');
+    assert.deepEqual(called.structuredContent.command.entities, { symbol: 'AAPL', quantity: 10 });
+    assert.deepEqual(JSON.parse(called.content[0].text), JSON.parse(JSON.stringify(called.structuredContent)));
+  });
+
+  it('sends progress notifications to a call that carries a progress token', async () => {
+    const notifications: JsonRpcNotification[] = [];
+    const called = result(await server().handle(request(3, 'tools/call', {
+      name: 'command-agent.process',
+      arguments: { command: 'analyze AAPL', userId: 'alice' },
+      _meta: { progressToken: 'p-1' }
+    }), {}, notification => notifications.push(notification)));
+
+    assert.equal(called.isError, false);
+    assert.ok(notifications.length > 0);
+    assert.ok(notifications.every(notification => notification.method === 'notifications/progress' && notification.params?.progressToken === 'p-1'));
+    assert.deepEqual(notifications.map(notification => notification.params?.progress), notifications.map((_, index) => index + 1));
+  });
+});
+
+describe('McpServer errors', () => {
+  it('answers text that is not JSON with a parse error and a null id', async () => {
+    assert.deepEqual(await server().handleText('{"jsonrpc": "2.0", "id": 1,'), {
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: JsonRpcErrorCode.parseError, message: 'Parse error' }
+    });
+  });
+
+  it('answers an unknown method with method not found', async () => {
+    const response = error(await server().handle(request(4, 'resources/list')));
+
+    assert.equal(response.id, 4);
+    assert.equal(response.error.code, JsonRpcErrorCode.methodNotFound);
+    assert.equal(response.error.message, 'Method not found: resources/list');
+  });
+
+  it('answers a message that is not a request with invalid request, keeping its id', async () => {
+    const response = error(await server().handle({ jsonrpc: '1.0', id: 'abc', method: 'ping' }));
+
+    assert.equal(response.id, 'abc');
+    assert.equal(response.error.code, JsonRpcErrorCode.invalidRequest);
+  });
+
+  it('answers a call to an unknown tool with invalid params', async () => {
+    const response = error(await server().handle(request(5, 'tools/call', { name: 'command-agent.trade' })));
+
+    assert.equal(response.error.code, JsonRpcErrorCode.invalidParams);
+    assert.equal(response.error.message, 'Unknown tool: command-agent.trade');
+  });
+
+  it('answers tools/call without a tool name with invalid params', async () => {
+    const response = error(await server().handle(request(6, 'tools/call', { arguments: {} })));
+
+    assert.equal(response.error.code, JsonRpcErrorCode.invalidParams);
+    assert.equal(response.error.message, 'Invalid params');
+  });
+
+  it('answers arguments that fail the tool schema with invalid params and the issues', async () => {
+    const response = error(await server().handle(request(8, 'tools/call', {
+      name: 'command-agent.confirm',
+      arguments: { confirmationToken: 'token', decision: 'maybe' }
+    })));
+
+    assert.equal(response.error.code, JsonRpcErrorCode.invalidParams);
+    assert.equal(response.error.message, 'Invalid arguments for command-agent.confirm');
+    assert.deepEqual((response.error.data as Array<{ path: string[] }>).map(issue => issue.path), [['decision']]);
+  });
+});
+
+describe('McpServer notifications and batches', () => {
+  it('answers nothing to a notification', async () => {
+    assert.equal(await server().handle({ jsonrpc: '2.0', method: 'notifications/initialized' }), undefined);
+  });
+
+  it('answers nothing to a notification even when its method is unknown', async () => {
+    assert.equal(await server().handle({ jsonrpc: '2.0', method: 'notifications/unheard_of' }), undefined);
+  });
+
+  it('ignores responses the client sends back', async () => {
+    assert.equal(await server().handle({ jsonrpc: '2.0', id: 1, result: {} }), undefined);
+  });
+
+  it('answers each request in a batch and leaves out its notifications', async () => {
+    const responses = await server().handle([
+      request(1, 'ping'),
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      request(2, 'no/such_method')
+    ]);
+
+    assert.ok(Array.isArray(responses));
+    assert.deepEqual(responses.map(response => [response.id, 'error' in response ? response.error.code : 'ok']), [
+      [1, 'ok'],
+      [2, JsonRpcErrorCode.methodNotFound]
+    ]);
+  });
+
+  it('answers a batch of only notifications with nothing', async () => {
+    assert.equal(await server().handle([{ jsonrpc: '2.0', method: 'notifications/initialized' }]), undefined);
+  });
+
+  it('answers an empty batch with invalid request', async () => {
+    const response = error(await server().handle([]));
+
+    assert.equal(response.id, null);
+    assert.equal(response.error.code, JsonRpcErrorCode.invalidRequest);
+  });
+});
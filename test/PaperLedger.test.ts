@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PaperLedger, PaperTradingConfig, loadPaperTradingConfig } from '../src/PaperLedger.js';
+import { OrderRequest } from '../src/ExecutionService.js';
+import { MarketDataService } from '../src/MarketDataService.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { FakeMCPClient } from './support/FakeMCPClient.js';
+
+const config: PaperTradingConfig = { mode: 'live', startingCash: 10_000, slippageBps: 10, commissionPerShare: 0.01, minCommission: 1 };
+
+function ledger(prices: Record<string, number>, storage = new MemoryStorage()): PaperLedger {
+  const mcp = new FakeMCPClient().on('market-data.get_ohlcv', ({ symbol }) => ({
+    rows: symbol in prices ? [{ date: new Date().toISOString().slice(0, 10), close: prices[symbol] }] : []
+  }));
+  return new PaperLedger(new MarketDataService(mcp), storage, config);
+}
+
+const market = (side: 'BUY' | 'SELL', qty: number, symbol = 'AAPL'): OrderRequest =>
+  ({ symbol, side, qty, spec: { orderType: 'MARKET', timeInForce: 'DAY' } });
+
+const limit = (side: 'BUY' | 'SELL', qty: number, limitPrice: number): OrderRequest =>
+  ({ symbol: 'AAPL', side, qty, spec: { orderType: 'LIMIT', limitPrice, timeInForce: 'DAY' } });
+
+describe('PaperLedger', () => {
+  it('fills a market buy at the close plus slippage and charges commission', async () => {
+    const paper = ledger({ AAPL: 100 });
+    const fill = await paper.fill('alice', market('BUY', 10));
+
+    assert.deepEqual(fill, { ok: true, price: 100.1, commission: 1, cash: 8_998 });
+    const snapshot = await paper.getSnapshot('alice');
+    assert.deepEqual(snapshot.positions.map(({ symbol, qty, avgCost }) => ({ symbol, qty, avgCost })), [{ symbol: 'AAPL', qty: 10, avgCost: 100.1 }]);
+    assert.equal(snapshot.cash, 8_998);
+    assert.equal(snapshot.totalValue, 8_998 + 10 * 100);
+  });
+
+  it('sells below the close and closes the position', async () => {
+    const paper = ledger({ AAPL: 100 });
+    await paper.fill('alice', market('BUY', 10));
+    const fill = await paper.fill('alice', market('SELL', 10));
+
+    assert.deepEqual(fill, { ok: true, price: 99.9, commission: 1, cash: 9_996 });
+    assert.deepEqual((await paper.getSnapshot('alice')).positions, []);
+  });
+
+  it('refuses a buy the cash cannot cover and leaves the ledger alone', async () => {
+    const paper = ledger({ AAPL: 100 });
+    const fill = await paper.fill('alice', market('BUY', 100));
+
+    assert.equal(fill.ok, false);
+    assert.match(!fill.ok ? fill.reason : '', /Not enough paper cash/);
+    assert.equal((await paper.getSnapshot('alice')).cash, 10_000);
+  });
+
+  it('never sells short', async () => {
+    const paper = ledger({ AAPL: 100 });
+    await paper.fill('alice', market('BUY', 5));
+    const fill = await paper.fill('alice', market('SELL', 6));
+
+    assert.equal(fill.ok, false);
+    assert.match(!fill.ok ? fill.reason : '', /holds 5 AAPL, fewer than 6/);
+  });
+
+  it('fills a reachable limit no worse than the limit and refuses an unreachable one', async () => {
+    const paper = ledger({ AAPL: 100 });
+
+    const capped = await paper.fill('alice', limit('BUY', 1, 100.05));
+    assert.equal(capped.ok && capped.price, 100.05);
+
+    const unreachable = await paper.fill('alice', limit('BUY', 1, 99));
+    assert.equal(unreachable.ok, false);
+  });
+
+  it('refuses stop orders and symbols without a price', async () => {
+    const paper = ledger({ AAPL: 100 });
+
+    const stop = await paper.fill('alice', { symbol: 'AAPL', side: 'SELL', qty: 1, spec: { orderType: 'STOP', stopPrice: 90, timeInForce: 'GTC' } });
+    assert.equal(stop.ok, false);
+
+    const unpriced = await paper.fill('alice', market('BUY', 1, 'ZZZZ'));
+    assert.match(!unpriced.ok ? unpriced.reason : '', /No market-data price for ZZZZ/);
+  });
+
+  it('fills one user\'s orders one at a time', async () => {
+    const paper = ledger({ AAPL: 100 });
+    // Each buy costs most of the cash; only one can fill
+    const fills = await Promise.all([paper.fill('alice', market('BUY', 60)), paper.fill('alice', market('BUY', 60))]);
+
+    assert.deepEqual(fills.map(fill => fill.ok), [true, false]);
+    assert.equal((await paper.getSnapshot('alice')).positions[0].qty, 60);
+  });
+
+  it('keeps each user\'s account in storage', async () => {
+    const storage = new MemoryStorage();
+    await ledger({ AAPL: 100 }, storage).fill('alice', market('BUY', 10));
+
+    const restarted = ledger({ AAPL: 110 }, storage);
+    assert.equal((await restarted.getSnapshot('alice')).positions[0].marketPrice, 110);
+    assert.equal((await restarted.getSnapshot('bob')).cash, 10_000);
+  });
+});
+
+describe('loadPaperTradingConfig', () => {
+  it('defaults to live with the documented paper costs', () => {
+    assert.deepEqual(loadPaperTradingConfig({}), { mode: 'live', startingCash: 100_000, slippageBps: 5, commissionPerShare: 0.005, minCommission: 1 });
+    assert.equal(loadPaperTradingConfig({ TRADING_MODE: 'paper' }).mode, 'paper');
+  });
+});
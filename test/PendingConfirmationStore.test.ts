@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PendingConfirmationStore, parseConfirmationReply } from '../src/PendingConfirmationStore.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { ParsedCommand } from '../src/types.js';
+
+const buy: ParsedCommand = {
+  intent: 'BUY',
+  entities: { symbol: 'AAPL', quantity: 10 },
+  confidence: 0.9,
+  originalText: 'buy 10 AAPL',
+  needsConfirmation: true
+};
+
+describe('parseConfirmationReply', () => {
+  const cases: Array<[string, ReturnType<typeof parseConfirmationReply>]> = [
+    ['yes', 'confirm'],
+    ['Go ahead!', 'confirm'],
+    ['y', 'confirm'],
+    ['no', 'reject'],
+    ['never mind', 'reject'],
+    ['cancel.', 'reject'],
+    ['yes buy more', null],
+    ['buy 10 AAPL', null]
+  ];
+
+  for (const [text, expected] of cases) {
+    it(`reads "${text}" as ${expected}`, () => {
+      assert.equal(parseConfirmationReply(text), expected);
+    });
+  }
+});
+
+describe('PendingConfirmationStore', () => {
+  it('resolves the pending action once', async () => {
+    const store = new PendingConfirmationStore(new MemoryStorage());
+    const pending = await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: buy });
+
+    const result = await store.resolve('default', 'alice', pending.token);
+    assert.equal(result.status, 'ok');
+    assert.deepEqual(result.status === 'ok' && result.action.parsedCommand, buy);
+    assert.equal((await store.resolve('default', 'alice')).status, 'none');
+  });
+
+  it('keeps one user\'s action out of another\'s reach on a shared session id', async () => {
+    const store = new PendingConfirmationStore(new MemoryStorage());
+    await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: buy });
+
+    assert.equal((await store.resolve('default', 'bob')).status, 'none');
+    assert.equal((await store.resolve('default', 'alice')).status, 'ok');
+  });
+
+  it('keeps each user\'s action separate', async () => {
+    const store = new PendingConfirmationStore(new MemoryStorage());
+    const alice = await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: buy });
+    const bob = await store.create('default', { kind: 'command', userId: 'bob', parsedCommand: { ...buy, entities: { symbol: 'MSFT' } } });
+
+    assert.equal((await store.get('alice', 'default'))?.token, alice.token);
+    assert.equal((await store.get('bob', 'default'))?.token, bob.token);
+  });
+
+  it('rejects a wrong token and consumes the action', async () => {
+    const store = new PendingConfirmationStore(new MemoryStorage());
+    const pending = await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: buy });
+
+    assert.equal((await store.resolve('default', 'alice', 'not-the-token')).status, 'mismatch');
+    assert.equal((await store.resolve('default', 'alice', pending.token)).status, 'none');
+  });
+
+  it('reports an expired action as expired', async () => {
+    const store = new PendingConfirmationStore(new MemoryStorage(), -1);
+    const pending = await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: buy });
+
+    const result = await store.resolve('default', 'alice', pending.token);
+    assert.equal(result.status, 'expired');
+  });
+
+  it('replaces an earlier action in the same session', async () => {
+    const store = new PendingConfirmationStore(new MemoryStorage());
+    const first = await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: buy });
+    await store.create('default', { kind: 'command', userId: 'alice', parsedCommand: { ...buy, intent: 'SELL' } });
+
+    assert.equal((await store.resolve('default', 'alice', first.token)).status, 'mismatch');
+  });
+});
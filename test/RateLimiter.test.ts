@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, RateLimitError, loadRateLimitConfig } from '../src/RateLimiter.js';
+
+// Refills slowly enough that no token comes back during a test
+const bucket = (capacity: number) => ({ capacity, refillPerSecond: 0.001 });
+
+function refusal(run: () => void): RateLimitError {
+  try {
+    run();
+  } catch (error) {
+    assert.ok(error instanceof RateLimitError);
+    return error;
+  }
+  assert.fail('expected a RateLimitError');
+}
+
+describe('RateLimiter', () => {
+  it('allows a burst up to capacity, then refuses with a wait', () => {
+    const limiter = new RateLimiter({ user: bucket(2), ip: null, trade: null });
+    limiter.checkRequest('alice');
+    limiter.checkRequest('alice');
+
+    const error = refusal(() => limiter.checkRequest('alice'));
+    assert.equal(error.scope, 'user');
+    assert.ok(error.retryAfterSeconds >= 1);
+  });
+
+  it('keeps each user\'s bucket separate', () => {
+    const limiter = new RateLimiter({ user: bucket(1), ip: null, trade: null });
+    limiter.checkRequest('alice');
+    limiter.checkRequest('bob');
+    assert.equal(refusal(() => limiter.checkRequest('alice')).scope, 'user');
+  });
+
+  it('charges nothing to the user when the address is over its limit', () => {
+    const limiter = new RateLimiter({ user: bucket(1), ip: bucket(1), trade: null });
+    limiter.checkRequest('alice', '10.0.0.1');
+
+    assert.equal(refusal(() => limiter.checkRequest('bob', '10.0.0.1')).scope, 'ip');
+    // Bob's only token was not spent by the refused request
+    limiter.checkRequest('bob', '10.0.0.2');
+  });
+
+  it('charges nothing to the address when the user is over its limit', () => {
+    const limiter = new RateLimiter({ user: bucket(1), ip: bucket(2), trade: null });
+    limiter.checkRequest('alice', '10.0.0.1');
+
+    assert.equal(refusal(() => limiter.checkRequest('alice', '10.0.0.1')).scope, 'user');
+    limiter.checkRequest('bob', '10.0.0.1');
+  });
+
+  it('limits trades on their own bucket', () => {
+    const limiter = new RateLimiter({ user: bucket(10), ip: null, trade: bucket(1) });
+    limiter.checkTrade('alice');
+    assert.equal(refusal(() => limiter.checkTrade('alice')).scope, 'trade');
+    limiter.checkRequest('alice');
+  });
+
+  it('turns a limit off at 0', () => {
+    const config = loadRateLimitConfig({ RATE_LIMIT_USER_PER_MINUTE: '0', RATE_LIMIT_IP_PER_MINUTE: '0', RATE_LIMIT_TRADE_PER_MINUTE: '0' });
+    assert.deepEqual(config, { user: null, ip: null, trade: null });
+
+    const limiter = new RateLimiter(config);
+    for (let i = 0; i < 100; i++) limiter.checkRequest('alice', '10.0.0.1');
+  });
+});
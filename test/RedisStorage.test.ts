@@ -0,0 +1,95 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { RedisStorage } from '../src/storage/RedisStorage.js';
+import { FakeRedisServer, RedisHandler, resp } from './support/FakeRedisServer.js';
+
+let server: FakeRedisServer | undefined;
+let storage: RedisStorage | undefined;
+
+// `credentials` is user:password@ and `db` a database number, both as in a redis URL
+async function connect(handler: RedisHandler, { credentials = '', db = '' } = {}): Promise<{ server: FakeRedisServer; storage: RedisStorage }> {
+  server = new FakeRedisServer(handler);
+  const url = (await server.listen()).replace('redis://', `redis://${credentials}`);
+  storage = new RedisStorage({ url: db ? `${url}/${db}` : url, keyPrefix: 'test:', timeoutMs: 1000 });
+  return { server, storage };
+}
+
+afterEach(async () => {
+  await storage?.close();
+  await server?.close();
+  storage = server = undefined;
+});
+
+describe('RedisStorage replies', () => {
+  it('reads a bulk string as JSON and a nil bulk as missing', async () => {
+    const { storage, server } = await connect(([, key]) => key === 'test:present' ? resp.bulk('{"qty":3}') : resp.nil);
+
+    assert.deepEqual(await storage.get('present'), { qty: 3 });
+    assert.equal(await storage.get('absent'), undefined);
+    assert.deepEqual(server.commands, [['GET', 'test:present'], ['GET', 'test:absent']]);
+  });
+
+  it('reads arrays, including an empty one', async () => {
+    const { storage } = await connect(([, key]) => key === 'test:list' ? resp.array(resp.bulk('"a"'), resp.bulk('"b"')) : resp.array());
+
+    assert.deepEqual(await storage.range('list', 10), ['a', 'b']);
+    assert.deepEqual(await storage.range('empty', 10), []);
+  });
+
+  it('rejects with the server error and keeps using the connection', async () => {
+    const { storage, server } = await connect(([command]) => command === 'SET'
+      ? resp.error('WRONGTYPE Operation against a key holding the wrong kind of value')
+      : resp.bulk('1'));
+
+    await assert.rejects(storage.set('key', 1), /WRONGTYPE/);
+    assert.equal(await storage.get('key'), 1);
+    assert.equal(server.connections.length, 1);
+  });
+
+  it('answers a transaction from the EXEC reply', async () => {
+    const { storage, server } = await connect(([command]) => command === 'MULTI' ? resp.ok
+      : command === 'EXEC' ? resp.array(resp.bulk('"token"'), resp.integer(1))
+      : '+QUEUED\r\n');
+
+    assert.equal(await storage.take('pending'), 'token');
+    assert.deepEqual(server.commands.map(([command]) => command), ['MULTI', 'GET', 'DEL', 'EXEC']);
+  });
+
+  it('reassembles replies split across chunks, multi-byte characters included', async () => {
+    const { storage, server } = await connect(([, key]) => key === 'test:list'
+      ? resp.array(resp.bulk('"naïve"'), resp.nil, resp.bulk('"€5"'))
+      : resp.bulk('"café"'));
+    server.chunkSize = 3;
+
+    const [word, list] = await Promise.all([storage.get('word'), storage.range('list', 10)]);
+    assert.equal(word, 'café');
+    assert.deepEqual(list.length, 3);
+    assert.deepEqual([list[0], list[2]], ['naïve', '€5']);
+  });
+
+  it('closes the connection when AUTH is refused, then retries on the next call', { timeout: 2000 }, async () => {
+    let accept = false;
+    const { storage, server } = await connect(([command]) => command === 'AUTH'
+      ? (accept ? resp.ok : resp.error('WRONGPASS invalid username-password pair'))
+      : resp.bulk('1'), { credentials: 'agent:secret@' });
+
+    await assert.rejects(storage.get('key'), /WRONGPASS/);
+    const [refused] = server.connections;
+    if (!refused.closed) await once(refused, 'close');
+
+    accept = true;
+    assert.equal(await storage.get('key'), 1);
+    assert.deepEqual(server.commands[0], ['AUTH', 'agent', 'secret']);
+    assert.equal(server.connections.length, 2);
+  });
+
+  it('closes the connection when SELECT is refused', { timeout: 2000 }, async () => {
+    const { storage, server } = await connect(([command]) => command === 'SELECT' ? resp.error('ERR DB index is out of range') : resp.bulk('1'), { db: '99' });
+
+    await assert.rejects(storage.get('key'), /DB index is out of range/);
+    const [refused] = server.connections;
+    if (!refused.closed) await once(refused, 'close');
+    assert.deepEqual(server.commands, [['SELECT', '99']]);
+  });
+});
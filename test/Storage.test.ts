@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { Storage } from '../src/storage/Storage.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { FileStorage } from '../src/storage/FileStorage.js';
+
+function tempFile(): string {
+  return join(mkdtempSync(join(tmpdir(), 'storage-')), 'nested', 'store.json');
+}
+
+// What every backend promises through the Storage interface
+for (const [backend, create] of [
+  ['memory', () => new MemoryStorage()],
+  ['file', () => new FileStorage(tempFile())]
+] as Array<[string, () => Storage]>) {
+  describe(`${backend} storage`, () => {
+    it('sets, gets and deletes JSON values without sharing objects', async () => {
+      const storage = create();
+      const value = { qty: 3, tags: ['a'] };
+      await storage.set('key', value);
+      value.tags.push('b');
+
+      assert.deepEqual(await storage.get('key'), { qty: 3, tags: ['a'] });
+      await storage.delete('key');
+      assert.equal(await storage.get('key'), undefined);
+    });
+
+    it('expires a value after its ttl', async () => {
+      const storage = create();
+      await storage.set('short', 1, 10);
+      await storage.set('kept', 2);
+
+      await sleep(20);
+      assert.equal(await storage.get('short'), undefined);
+      assert.equal(await storage.get('kept'), 2);
+    });
+
+    it('hands a value out to only one take', async () => {
+      const storage = create();
+      await storage.set('token', 'abc');
+
+      assert.deepEqual(await Promise.all([storage.take('token'), storage.take('token')]), ['abc', undefined]);
+    });
+
+    it('keeps only the newest entries of a capped list and reads the newest first', async () => {
+      const storage = create();
+      for (const item of [1, 2, 3, 4]) {
+        await storage.append('list', item, 3);
+      }
+
+      assert.deepEqual(await storage.range('list', 10), [2, 3, 4]);
+      assert.deepEqual(await storage.range('list', 2), [3, 4]);
+      assert.deepEqual(await storage.range('missing', 2), []);
+    });
+
+    it("restarts a list's expiry on each append that gives one", async () => {
+      const storage = create();
+      await storage.append('list', 1, 10, 200);
+      await sleep(120);
+      await storage.append('list', 2, 10, 200);
+      await sleep(120);
+
+      assert.deepEqual(await storage.range('list', 10), [1, 2]);
+      await sleep(100);
+      assert.deepEqual(await storage.range('list', 10), []);
+    });
+  });
+}
+
+describe('FileStorage', () => {
+  it('loads what an earlier instance saved, without what had expired', async () => {
+    const file = tempFile();
+    const first = new FileStorage(file);
+    await first.set('settings', { personaMode: false });
+    await first.append('history', 'buy 1 AAPL', 10);
+    await first.set('confirmation', 'abc', 10);
+    await first.close();
+
+    await sleep(20);
+    const second = new FileStorage(file);
+    assert.deepEqual(await second.get('settings'), { personaMode: false });
+    assert.deepEqual(await second.range('history', 10), ['buy 1 AAPL']);
+    assert.equal(await second.get('confirmation'), undefined);
+  });
+
+  it('writes the whole store as JSON after each change', async () => {
+    const file = tempFile();
+    const storage = new FileStorage(file);
+    await storage.set('a', 1);
+    await storage.delete('a');
+    await storage.set('b', 2);
+
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(file, 'utf8'))), ['b']);
+  });
+
+  it('refuses to start on a store it cannot read rather than overwrite it', () => {
+    const file = tempFile();
+    new FileStorage(file);
+    writeFileSync(file, '{"truncated":');
+
+    assert.throws(() => new FileStorage(file), SyntaxError);
+  });
+});
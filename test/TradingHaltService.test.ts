@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TradingHaltService } from '../src/TradingHaltService.js';
+import { FakeMCPClient } from './support/FakeMCPClient.js';
+
+describe('TradingHaltService', () => {
+  it('halts and resumes a user', async () => {
+    const halts = new TradingHaltService(new FakeMCPClient());
+
+    const halt = await halts.halt('user', 'alice', 'stop everything');
+    assert.equal((await halts.getActiveHalt('alice'))?.since, halt.since);
+    assert.equal(await halts.getActiveHalt('bob'), null);
+
+    assert.equal((await halts.resume('user', 'alice'))?.since, halt.since);
+    assert.equal(await halts.getActiveHalt('alice'), null);
+  });
+
+  it('blocks every user under a global halt', async () => {
+    const halts = new TradingHaltService(new FakeMCPClient());
+    await halts.halt('global', 'admin');
+
+    assert.equal((await halts.getActiveHalt('bob'))?.scope, 'global');
+  });
+
+  it('sees a halt written by another instance after reading none', async () => {
+    const config = new Map<string, unknown>();
+    const first = new TradingHaltService(new FakeMCPClient(config));
+    const second = new TradingHaltService(new FakeMCPClient(config));
+
+    assert.equal(await first.getActiveHalt('alice'), null);
+    await second.halt('user', 'alice');
+    assert.equal((await first.getActiveHalt('alice'))?.haltedBy, 'alice');
+
+    await second.resume('user', 'alice');
+    assert.equal(await first.getActiveHalt('alice'), null);
+  });
+
+  it('treats trading as halted when the config service cannot be read', async () => {
+    const mcp = new FakeMCPClient();
+    const halts = new TradingHaltService(mcp);
+    mcp.failing.add('config');
+
+    const halt = await halts.getActiveHalt('alice');
+    assert.equal(halt?.haltedBy, 'system');
+  });
+
+  it('keeps the last halt it saw through a config outage', async () => {
+    const mcp = new FakeMCPClient();
+    const halts = new TradingHaltService(mcp);
+    const halt = await halts.halt('user', 'alice');
+    mcp.failing.add('config');
+
+    assert.deepEqual((await halts.getState('alice')).user, halt);
+  });
+
+  it('throws when the halt cannot be persisted', async () => {
+    const mcp = new FakeMCPClient();
+    const halts = new TradingHaltService(mcp);
+    mcp.failing.add('config');
+
+    await assert.rejects(halts.halt('user', 'alice'), /could not save the trading halt/i);
+    mcp.failing.delete('config');
+    assert.equal(await halts.getActiveHalt('alice'), null);
+  });
+
+  it('throws when a lifted halt cannot be persisted', async () => {
+    const mcp = new FakeMCPClient();
+    const halts = new TradingHaltService(mcp);
+    await halts.halt('user', 'alice');
+    mcp.on('config.set', () => {
+      throw new Error('MCP service config error: 503 unavailable');
+    });
+
+    await assert.rejects(halts.resume('user', 'alice'), /could not lift the trading halt/i);
+    assert.notEqual(await halts.getActiveHalt('alice'), null);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { UserSettingsStore } from '../src/UserSettingsStore.js';
+import { MemoryStorage } from '../src/storage/MemoryStorage.js';
+import { FakeMCPClient } from './support/FakeMCPClient.js';
+
+describe('UserSettingsStore', () => {
+  it("applies a limit changed on another instance once this instance's cache expires", async () => {
+    const config = new Map<string, unknown>();
+    const first = new UserSettingsStore(new FakeMCPClient(config), new MemoryStorage(), 20);
+    const second = new UserSettingsStore(new FakeMCPClient(config), new MemoryStorage(), 20);
+
+    assert.equal((await first.get('alice')).maxPositionValue, 10_000);
+    assert.equal((await second.update('alice', { key: 'maxPositionValue', value: 500 })).ok, true);
+
+    await sleep(30);
+    assert.equal((await first.get('alice')).maxPositionValue, 500);
+  });
+
+  it('updates from the saved settings rather than a stale cached copy', async () => {
+    const config = new Map<string, unknown>();
+    const first = new UserSettingsStore(new FakeMCPClient(config), new MemoryStorage(), 60_000);
+    const second = new UserSettingsStore(new FakeMCPClient(config), new MemoryStorage(), 60_000);
+
+    await first.get('alice');
+    await second.update('alice', { key: 'maxPositionValue', value: 500 });
+    const result = await first.update('alice', { key: 'personaMode', value: false });
+
+    assert.equal(result.ok && result.settings.maxPositionValue, 500);
+  });
+
+  it('reports a setting that could not be saved and keeps serving the old value', async () => {
+    const mcp = new FakeMCPClient();
+    const settings = new UserSettingsStore(mcp, new MemoryStorage());
+    await settings.get('alice');
+
+    mcp.on('config.set', () => { throw new Error('config unavailable'); });
+    const result = await settings.update('alice', { key: 'maxPositionValue', value: 500 });
+
+    assert.deepEqual(result, { ok: false, error: 'The new settings could not be saved. Please try again.' });
+    assert.equal((await settings.get('alice')).maxPositionValue, 10_000);
+  });
+
+  it('refuses an update when the current settings cannot be read', async () => {
+    const mcp = new FakeMCPClient();
+    mcp.failing.add('config');
+    const result = await new UserSettingsStore(mcp, new MemoryStorage()).update('alice', { key: 'maxPositionValue', value: 500 });
+
+    assert.equal(result.ok, false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveQuantity, SizingContext } from '../src/quantity.js';
+import { ExtractedEntities, PortfolioSnapshot } from '../src/types.js';
+
+const portfolio: PortfolioSnapshot = {
+  userId: 'alice',
+  positions: [{ symbol: 'TSLA', qty: 9, marketPrice: 200 }],
+  cash: 10_000,
+  totalValue: 11_800,
+  asOf: '2026-10-19T00:00:00.000Z'
+};
+
+const context: SizingContext = { price: 100, portfolio, suggestedQuantity: 5 };
+
+const sized: Array<[string, ExtractedEntities, 'BUY' | 'SELL', number]> = [
+  ['a share count', { symbol: 'AAPL', quantity: 10 }, 'BUY', 10],
+  ['a dollar amount, rounded down', { symbol: 'AAPL', amount: 1_050 }, 'BUY', 10],
+  ['half the held position, rounded down', { symbol: 'TSLA', relativeSize: { percent: 50, of: 'position' } }, 'SELL', 4],
+  ['all the held position', { symbol: 'TSLA', relativeSize: { percent: 100, of: 'position' } }, 'SELL', 9],
+  ['a share of cash', { symbol: 'AAPL', relativeSize: { percent: 10, of: 'cash' } }, 'BUY', 10],
+  ['a share of the portfolio', { symbol: 'AAPL', relativeSize: { percent: 50, of: 'portfolio' } }, 'BUY', 59],
+  ['the swarm\'s size for a buy', { symbol: 'AAPL' }, 'BUY', 5],
+  ['the swarm\'s size for a sell, capped at the holding', { symbol: 'TSLA' }, 'SELL', 5]
+];
+
+const refused: Array<[string, ExtractedEntities, 'BUY' | 'SELL', SizingContext, RegExp]> = [
+  ['a fractional share count', { symbol: 'AAPL', quantity: 1.5 }, 'BUY', context, /not a whole number/],
+  ['an amount under one share', { symbol: 'AAPL', amount: 50 }, 'BUY', context, /does not buy a whole share/],
+  ['an amount without a price', { symbol: 'AAPL', amount: 500 }, 'BUY', { ...context, price: undefined }, /no current price/],
+  ['part of a position not held', { symbol: 'MSFT', relativeSize: { percent: 50, of: 'position' } }, 'SELL', context, /no MSFT position/],
+  ['an unsized sell of a position not held', { symbol: 'MSFT' }, 'SELL', context, /You hold no MSFT/],
+  ['an unsized sell without positions', { symbol: 'TSLA' }, 'SELL', { ...context, portfolio: null }, /could not be loaded/],
+  ['a relative size without positions', { symbol: 'AAPL', relativeSize: { percent: 10, of: 'cash' } }, 'BUY', { ...context, portfolio: null }, /could not be loaded/]
+];
+
+describe('resolveQuantity', () => {
+  for (const [name, entities, side, qty] of sized) {
+    it(`sizes ${name}`, () => {
+      const result = resolveQuantity(entities, side, context);
+      assert.ok(result.ok, !result.ok ? result.error : undefined);
+      assert.equal(result.qty, qty);
+    });
+  }
+
+  for (const [name, entities, side, sizing, error] of refused) {
+    it(`refuses ${name}`, () => {
+      const result = resolveQuantity(entities, side, sizing);
+      assert.equal(result.ok, false);
+      assert.match(!result.ok ? result.error : '', error);
+    });
+  }
+
+  it('never sells more than is held', () => {
+    const result = resolveQuantity({ symbol: 'TSLA' }, 'SELL', { ...context, suggestedQuantity: 50 });
+    assert.equal(result.ok && result.qty, 9);
+  });
+});
@@ -0,0 +1,43 @@
+import { MCPClient } from '../../src/MCPClient.js';
+
+type Handler = (input: any) => unknown;
+
+// Answers MCP calls from in-test handlers, with a shared config store behind
+// config.get and config.set; `failing` services throw as if unreachable
+export class FakeMCPClient extends MCPClient {
+  config: Map<string, unknown>;
+  failing: Set<string> = new Set();
+  calls: Array<{ service: string; tool: string; input: any }> = [];
+  private handlers: Map<string, Handler> = new Map();
+
+  constructor(config: Map<string, unknown> = new Map()) {
+    super('http://mcp.invalid');
+    this.config = config;
+  }
+
+  on(tool: string, handler: Handler): this {
+    this.handlers.set(tool, handler);
+    return this;
+  }
+
+  async call(service: string, tool: string, input: any): Promise<any> {
+    this.calls.push({ service, tool, input });
+    if (this.failing.has(service)) {
+      throw new Error(`MCP service ${service} error: 503 unavailable`);
+    }
+
+    const handler = this.handlers.get(tool);
+    if (handler) {
+      return handler(input);
+    }
+    switch (tool) {
+      case 'config.get':
+        return { value: this.config.get(input.key) ?? null };
+      case 'config.set':
+        this.config.set(input.key, input.value);
+        return { ok: true };
+      default:
+        throw new Error(`MCP service ${service} error: 404 no tool ${tool}`);
+    }
+  }
+}
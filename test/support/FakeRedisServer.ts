@@ -0,0 +1,87 @@
+import net, { AddressInfo, Server, Socket } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+
+// Raw RESP text to send back
+export type RedisHandler = (args: string[]) => string;
+
+// Reads commands off the wire and answers each from the handler, so tests control
+// every byte the client parses. With chunkSize set, replies go out in pieces that size.
+export class FakeRedisServer {
+  commands: string[][] = [];
+  connections: Socket[] = [];
+  chunkSize?: number;
+  private server: Server;
+  private handler: RedisHandler;
+
+  constructor(handler: RedisHandler) {
+    this.handler = handler;
+    this.server = net.createServer(socket => this.accept(socket));
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `redis://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    for (const socket of this.connections) socket.destroy();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private accept(socket: Socket): void {
+    socket.setNoDelay(true);
+    this.connections.push(socket);
+    let buffer = '';
+    let writing = Promise.resolve();
+
+    socket.on('error', () => undefined);
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let parsed: { args: string[]; rest: string } | undefined;
+      while ((parsed = parseCommand(buffer))) {
+        buffer = parsed.rest;
+        this.commands.push(parsed.args);
+        const reply = this.handler(parsed.args);
+        writing = writing.then(() => this.write(socket, reply));
+      }
+    });
+  }
+
+  private async write(socket: Socket, reply: string): Promise<void> {
+    if (!this.chunkSize) {
+      socket.write(reply);
+      return;
+    }
+    const bytes = Buffer.from(reply);
+    for (let offset = 0; offset < bytes.length; offset += this.chunkSize) {
+      socket.write(bytes.subarray(offset, offset + this.chunkSize));
+      await sleep(1);
+    }
+  }
+}
+
+function parseCommand(buffer: string): { args: string[]; rest: string } | undefined {
+  const header = buffer.match(/^\*(\d+)\r\n/);
+  if (!header) return undefined;
+
+  let offset = header[0].length;
+  const args: string[] = [];
+  for (let i = 0; i < Number(header[1]); i++) {
+    const length = buffer.slice(offset).match(/^\$(\d+)\r\n/);
+    if (!length) return undefined;
+    offset += length[0].length;
+    if (buffer.length < offset + Number(length[1]) + 2) return undefined;
+    args.push(buffer.slice(offset, offset + Number(length[1])));
+    offset += Number(length[1]) + 2;
+  }
+  return { args, rest: buffer.slice(offset) };
+}
+
+export const resp = {
+  ok: '+OK\r\n',
+  nil: '$-1\r\n',
+  bulk: (value: string) => `$${Buffer.byteLength(value)}\r\n${value}\r\n`,
+  integer: (value: number) => `:${value}\r\n`,
+  error: (message: string) => `-${message}\r\n`,
+  array: (...items: string[]) => `*${items.length}\r\n${items.join('')}`
+};
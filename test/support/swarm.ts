@@ -0,0 +1,33 @@
+import { FakeMCPClient } from './FakeMCPClient.js';
+
+export interface SwarmOptions {
+  // Latest close per symbol; the session before closes one dollar lower
+  prices?: Record<string, number>;
+  // Above 0.6 the sentiment agent backs a buy, below 0.4 a sell
+  sentiment?: number;
+  positions?: Array<{ symbol: string; qty: number; marketPrice: number }>;
+  cash?: number;
+}
+
+// A swarm that agrees with every buy: prices rising, sentiment bullish, risk low. The
+// risk engine approves and the execution venue fills market orders at the last close.
+export function fakeSwarm({ prices = { AAPL: 100 }, sentiment = 0.9, positions = [], cash = 100_000 }: SwarmOptions = {}): FakeMCPClient {
+  let nextOrder = 0;
+  const today = Date.now();
+  const day = (daysAgo: number) => new Date(today - daysAgo * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  return new FakeMCPClient()
+    .on('market-data.get_ohlcv', ({ symbol }) => ({
+      rows: symbol in prices ? [{ date: day(1), close: prices[symbol] - 1 }, { date: day(0), close: prices[symbol] }] : []
+    }))
+    .on('nlp-sentiment.analyze', () => ({ sentiment, confidence: 0.8 }))
+    .on('risk-engine.assess_symbol', () => ({ status: 'LOW', riskScore: 2 }))
+    .on('risk-engine.pretrade_check', () => ({ status: 'APPROVED' }))
+    .on('portfolio.get_positions', () => ({ positions, cash }))
+    .on('execution.submit_order', ({ symbol, qty }) => ({
+      orderId: `order-${++nextOrder}`,
+      status: 'filled',
+      filledQty: qty,
+      avgFillPrice: prices[symbol]
+    }));
+}